@@ -0,0 +1,25 @@
+// Not a route: a minimal client for a Redis-compatible REST store, such as
+// Vercel KV or Upstash, for state the API routes share across invocations.
+
+export const isKvConfigured = () => Boolean(process.env.KV_REST_API_URL && process.env.KV_REST_API_TOKEN);
+
+/** Runs one Redis command, e.g. ['INCR', 'key'], and returns its result. */
+export const runKvCommand = async <T>(command: (string | number)[]): Promise<T> => {
+  if (!isKvConfigured()) {
+    throw new Error('KV_REST_API_URL and KV_REST_API_TOKEN are not configured');
+  }
+
+  const response = await fetch(process.env.KV_REST_API_URL, {
+    method: 'POST',
+    headers: {
+      Authorization: `Bearer ${process.env.KV_REST_API_TOKEN}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(command.map(String)),
+  });
+  const body = await response.json().catch(() => null);
+  if (!response.ok || !body || body.error) {
+    throw new Error(`KV ${command[0]} failed: ${body?.error ?? response.status}`);
+  }
+  return body.result as T;
+};
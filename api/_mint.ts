@@ -0,0 +1,86 @@
+import { Connection, PublicKey } from '@solana/web3.js';
+import {
+  ExtensionType,
+  TOKEN_2022_PROGRAM_ID,
+  TOKEN_PROGRAM_ID,
+  getExtensionData,
+  getExtensionTypes,
+  unpackMint,
+} from '@solana/spl-token';
+import { unpack as unpackTokenMetadata } from '@solana/spl-token-metadata';
+import type { TokenExtensionKey } from '@/api/token-extensions';
+import { getMetadataUpdateAuthority, tryDecodeMetadataAccount } from '../src/api/metaplex-metadata';
+import { ServiceFeeFeature } from '../src/lib/service-fees';
+
+// Not a route: reads which priced options a launched mint has on-chain, so the
+// fee API doesn't have to take the browser's word for what was launched.
+
+const TOKEN_METADATA_PROGRAM_ID = new PublicKey('metaqbxxUerdq28cj1RbAWkYQm3ybzjb6a8bt518x1s');
+
+const EXTENSION_TYPES: Record<TokenExtensionKey, ExtensionType> = {
+  transferFee: ExtensionType.TransferFeeConfig,
+  interestBearing: ExtensionType.InterestBearingConfig,
+  nonTransferable: ExtensionType.NonTransferable,
+  permanentDelegate: ExtensionType.PermanentDelegate,
+  defaultAccountState: ExtensionType.DefaultAccountState,
+  mintCloseAuthority: ExtensionType.MintCloseAuthority,
+};
+
+/**
+ * The priced features a mint shows on-chain: retained authorities, a creator
+ * in its metadata and its Token-2022 extensions. Returns null if the account
+ * isn't a mint.
+ */
+export const getMintFeatures = async (connection: Connection, mint: PublicKey) => {
+  const [metadataAddress] = PublicKey.findProgramAddressSync(
+    [Buffer.from('metadata'), TOKEN_METADATA_PROGRAM_ID.toBuffer(), mint.toBuffer()],
+    TOKEN_METADATA_PROGRAM_ID
+  );
+  const [mintAccount, metadataAccount] = await connection.getMultipleAccountsInfo([mint, metadataAddress]);
+  if (!mintAccount || (!mintAccount.owner.equals(TOKEN_PROGRAM_ID) && !mintAccount.owner.equals(TOKEN_2022_PROGRAM_ID))) {
+    return null;
+  }
+
+  let mintInfo: ReturnType<typeof unpackMint>;
+  try {
+    mintInfo = unpackMint(mint, mintAccount, mintAccount.owner);
+  } catch {
+    return null;
+  }
+
+  const features: ServiceFeeFeature[] = ['base'];
+  if (mintInfo.freezeAuthority) {
+    features.push('freezeAuthority');
+  }
+  if (mintInfo.mintAuthority) {
+    features.push('mintAuthority');
+  }
+
+  const onMintMetadataData = getExtensionData(ExtensionType.TokenMetadata, mintInfo.tlvData);
+  if (onMintMetadataData) {
+    const metadata = unpackTokenMetadata(onMintMetadataData);
+    if (metadata.updateAuthority) {
+      features.push('updateAuthority');
+    }
+    if (metadata.additionalMetadata.some(([key]) => key === 'creator')) {
+      features.push('creatorMetadata');
+    }
+  } else {
+    const metadata = tryDecodeMetadataAccount(metadataAccount?.data);
+    if (metadata && getMetadataUpdateAuthority(metadata)) {
+      features.push('updateAuthority');
+    }
+    if (metadata?.creators?.length) {
+      features.push('creatorMetadata');
+    }
+  }
+
+  const extensionTypes = getExtensionTypes(mintInfo.tlvData);
+  for (const [extension, type] of Object.entries(EXTENSION_TYPES) as [TokenExtensionKey, ExtensionType][]) {
+    if (extensionTypes.includes(type)) {
+      features.push(extension);
+    }
+  }
+
+  return features;
+};
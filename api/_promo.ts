@@ -0,0 +1,96 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import {
+  AppliedPromo,
+  PromoRule,
+  getPromoMismatch,
+  getPromoSignaturePayload,
+  normalizePromoCode,
+} from '../src/lib/promo-codes';
+import { runKvCommand } from './_kv';
+
+// Not a route: shared by the promo API, which signs promos, and the fee API,
+// which only accepts a discounted fee for a promo it can verify.
+
+// Promo rules live only on the server, as a JSON array of PromoRule in
+// PROMO_CODES, so the browser can't see or invent codes.
+const loadPromoRules = (): PromoRule[] => {
+  try {
+    return JSON.parse(process.env.PROMO_CODES || '[]');
+  } catch (error) {
+    console.error('Invalid PROMO_CODES configuration:', error);
+    return [];
+  }
+};
+
+export const findPromoRule = (code: string) =>
+  loadPromoRules().find((candidate) => normalizePromoCode(candidate.code) === normalizePromoCode(code));
+
+const getRedemptionsKey = (rule: PromoRule, cluster: string) =>
+  `promo-redemptions:${cluster}:${normalizePromoCode(rule.code)}`;
+
+// Both scripts return how many other wallets hold a use of a capped code on a
+// cluster, which is maxUses when none is left for this wallet.
+const COUNT_REDEMPTIONS_SCRIPT = `
+local uses = redis.call('SCARD', KEYS[1])
+return uses - redis.call('SISMEMBER', KEYS[1], ARGV[1])
+`;
+
+// Takes a use atomically, so concurrent launches can't redeem more than
+// maxUses. A wallet that already holds one doesn't take another.
+const RECORD_REDEMPTION_SCRIPT = `
+local uses = redis.call('SCARD', KEYS[1])
+if redis.call('SISMEMBER', KEYS[1], ARGV[1]) == 1 then
+  return uses - 1
+end
+if uses < tonumber(ARGV[2]) then
+  redis.call('SADD', KEYS[1], ARGV[1])
+end
+return uses
+`;
+
+export const countRedemptions = (rule: PromoRule, cluster: string, walletAddress: string) =>
+  runKvCommand<number>(['EVAL', COUNT_REDEMPTIONS_SCRIPT, 1, getRedemptionsKey(rule, cluster), walletAddress]);
+
+/** Records that a wallet paid a launch with a capped code. Only the fee API calls this, once the payment is verified. */
+export const recordRedemption = (rule: PromoRule, cluster: string, walletAddress: string) =>
+  runKvCommand<number>([
+    'EVAL',
+    RECORD_REDEMPTION_SCRIPT,
+    1,
+    getRedemptionsKey(rule, cluster),
+    walletAddress,
+    rule.maxUses,
+  ]);
+
+const getSigningSecret = () => {
+  const secret = process.env.PROMO_SIGNING_SECRET;
+  if (!secret) {
+    throw new Error('PROMO_SIGNING_SECRET is not configured');
+  }
+  return secret;
+};
+
+const getPromoSignature = (promo: Omit<AppliedPromo, 'signature'>) =>
+  createHmac('sha256', getSigningSecret()).update(getPromoSignaturePayload(promo)).digest('hex');
+
+export const signPromo = (promo: Omit<AppliedPromo, 'signature'>): AppliedPromo => ({
+  ...promo,
+  signature: getPromoSignature(promo),
+});
+
+/**
+ * Returns why a promo can't discount a launch, or null if it can: it must
+ * carry this server's signature, and match the wallet, cluster and priced
+ * features of the launch at the time `at` the fee was paid.
+ */
+export const verifyPromo = (
+  promo: AppliedPromo,
+  launch: { walletAddress: string; cluster: string; features: string[]; at: number }
+) => {
+  const expected = Buffer.from(getPromoSignature(promo), 'hex');
+  const actual = Buffer.from(typeof promo.signature === 'string' ? promo.signature : '', 'hex');
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+    return 'The promo signature is invalid';
+  }
+  return getPromoMismatch(promo, { ...launch, now: launch.at });
+};
@@ -0,0 +1,34 @@
+import { isKvConfigured, runKvCommand } from './_kv';
+
+// Not a route: fixed-window rate limits, counted in the KV store so every
+// function instance shares them. Without a store each instance counts on its
+// own, which only slows abuse down.
+
+const INCREMENT_SCRIPT = `
+local count = redis.call('INCR', KEYS[1])
+if count == 1 then
+  redis.call('EXPIRE', KEYS[1], ARGV[1])
+end
+return count
+`;
+
+const localWindows = new Map<string, { count: number; resetsAt: number }>();
+
+const incrementLocally = (key: string, windowSeconds: number) => {
+  const now = Date.now();
+  const window = localWindows.get(key);
+  if (!window || window.resetsAt <= now) {
+    localWindows.set(key, { count: 1, resetsAt: now + windowSeconds * 1000 });
+    return 1;
+  }
+  window.count++;
+  return window.count;
+};
+
+/** Counts one request against `key` and returns whether it is within `limit` for the window. */
+export const consumeRateLimit = async (key: string, limit: number, windowSeconds: number) => {
+  const count = isKvConfigured()
+    ? await runKvCommand<number>(['EVAL', INCREMENT_SCRIPT, 1, `rate-limit:${key}`, windowSeconds])
+    : incrementLocally(key, windowSeconds);
+  return count <= limit;
+};
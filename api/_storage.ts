@@ -0,0 +1,166 @@
+import { createHash, createHmac } from 'crypto';
+import { mkdir, writeFile } from 'fs/promises';
+import path from 'path';
+import { StorageProviderId } from '../src/lib/storage';
+
+// Not a route: Vercel skips files that start with an underscore.
+
+export interface StorageProvider {
+  id: StorageProviderId;
+  // Stores `data` under `key` and returns the public URI it can be read from.
+  upload: (key: string, data: Buffer, contentType: string) => Promise<string>;
+}
+
+const requireEnv = (name: string) => {
+  const value = process.env[name];
+  if (!value) {
+    throw new Error(`${name} is not configured`);
+  }
+  return value;
+};
+
+const trimSlash = (url: string) => url.replace(/\/+$/, '');
+
+const sha256 = (data: Buffer | string) => createHash('sha256').update(data).digest('hex');
+const hmac = (key: Buffer | string, data: string) => createHmac('sha256', key).update(data).digest();
+
+// Writes into a directory the dev server serves, by default public/uploads.
+// Meant for development: serverless deployments have no writable disk.
+const createLocalProvider = (origin: string): StorageProvider => ({
+  id: 'local',
+  upload: async (key, data) => {
+    const directory = process.env.STORAGE_LOCAL_DIR || path.join(process.cwd(), 'public', 'uploads');
+    await mkdir(directory, { recursive: true });
+    await writeFile(path.join(directory, key), data);
+    return `${trimSlash(process.env.STORAGE_PUBLIC_URL || `${origin}/uploads`)}/${key}`;
+  },
+});
+
+// Any S3-compatible bucket (AWS, R2, Spaces, MinIO), written with a path-style
+// PUT signed with AWS Signature Version 4.
+const createS3Provider = (): StorageProvider => {
+  const endpoint = trimSlash(requireEnv('S3_ENDPOINT'));
+  const bucket = requireEnv('S3_BUCKET');
+  const accessKeyId = requireEnv('S3_ACCESS_KEY_ID');
+  const secretAccessKey = requireEnv('S3_SECRET_ACCESS_KEY');
+  const publicUrl = trimSlash(requireEnv('S3_PUBLIC_URL'));
+  const region = process.env.S3_REGION || 'us-east-1';
+
+  return {
+    id: 's3',
+    upload: async (key, data, contentType) => {
+      const url = new URL(`${endpoint}/${bucket}/${key}`);
+      const amzDate = new Date().toISOString().replace(/[:-]|\.\d{3}/g, '');
+      const date = amzDate.slice(0, 8);
+      const payloadHash = sha256(data);
+      const headers: Record<string, string> = {
+        'content-type': contentType,
+        host: url.host,
+        'x-amz-content-sha256': payloadHash,
+        'x-amz-date': amzDate,
+      };
+      const signedHeaders = Object.keys(headers).join(';');
+      const canonicalRequest = [
+        'PUT',
+        url.pathname,
+        '',
+        ...Object.entries(headers).map(([name, value]) => `${name}:${value}`),
+        '',
+        signedHeaders,
+        payloadHash,
+      ].join('\n');
+      const scope = `${date}/${region}/s3/aws4_request`;
+      const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256(canonicalRequest)].join('\n');
+      const signingKey = ['s3', 'aws4_request'].reduce(
+        (signing, part) => hmac(signing, part),
+        hmac(hmac(`AWS4${secretAccessKey}`, date), region)
+      );
+      const signature = createHmac('sha256', signingKey).update(stringToSign).digest('hex');
+
+      const response = await fetch(url, {
+        method: 'PUT',
+        headers: {
+          ...headers,
+          authorization: `AWS4-HMAC-SHA256 Credential=${accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`,
+        },
+        body: data,
+      });
+      if (!response.ok) {
+        throw new Error(`S3 upload failed (${response.status}): ${await response.text()}`);
+      }
+      return `${publicUrl}/${key}`;
+    },
+  };
+};
+
+// Adds and pins through the Kubo RPC API, which hosted pinning services expose too.
+const createIpfsProvider = (): StorageProvider => {
+  const apiUrl = trimSlash(requireEnv('IPFS_API_URL'));
+  const gatewayUrl = trimSlash(process.env.IPFS_GATEWAY_URL || 'https://ipfs.io/ipfs');
+
+  return {
+    id: 'ipfs',
+    upload: async (key, data, contentType) => {
+      const form = new FormData();
+      form.append('file', new Blob([data], { type: contentType }), key);
+      const response = await fetch(`${apiUrl}/api/v0/add?cid-version=1&pin=true`, {
+        method: 'POST',
+        headers: process.env.IPFS_API_AUTH ? { authorization: process.env.IPFS_API_AUTH } : undefined,
+        body: form,
+      });
+      if (!response.ok) {
+        throw new Error(`IPFS upload failed (${response.status}): ${await response.text()}`);
+      }
+      const { Hash } = (await response.json()) as { Hash: string };
+      return `${gatewayUrl}/${Hash}`;
+    },
+  };
+};
+
+// Permanent storage on Arweave through an Irys bundler, paid from a funded
+// Solana wallet. The SDK is only loaded when this provider is in use.
+const createArweaveProvider = (): StorageProvider => {
+  // Base58 secret key, as Solana CLI tools export it.
+  const privateKey = requireEnv('IRYS_PRIVATE_KEY');
+  const gatewayUrl = trimSlash(process.env.IRYS_GATEWAY_URL || 'https://gateway.irys.xyz');
+
+  return {
+    id: 'arweave',
+    upload: async (_key, data, contentType) => {
+      const [{ Uploader }, { Solana }] = await Promise.all([import('@irys/upload'), import('@irys/upload-solana')]);
+      let builder = Uploader(Solana).withWallet(privateKey);
+      if (process.env.IRYS_NETWORK === 'devnet') {
+        builder = builder.devnet().withRpc(process.env.IRYS_RPC_URL || 'https://api.devnet.solana.com');
+      } else if (process.env.IRYS_RPC_URL) {
+        builder = builder.withRpc(process.env.IRYS_RPC_URL);
+      }
+      const irys = await builder;
+      const receipt = await irys.upload(data, { tags: [{ name: 'Content-Type', value: contentType }] });
+      return `${gatewayUrl}/${receipt.id}`;
+    },
+  };
+};
+
+/**
+ * The provider named by STORAGE_PROVIDER, local by default. Throws when the
+ * provider's settings are missing. `origin` is where the local provider's
+ * files are served from.
+ */
+export const getStorageProvider = (origin: string): StorageProvider => {
+  const id = (process.env.STORAGE_PROVIDER || 'local') as StorageProviderId;
+  switch (id) {
+    case 'local':
+      return createLocalProvider(origin);
+    case 's3':
+      return createS3Provider();
+    case 'ipfs':
+      return createIpfsProvider();
+    case 'arweave':
+      return createArweaveProvider();
+    default:
+      throw new Error(`Unknown STORAGE_PROVIDER "${id}"`);
+  }
+};
+
+/** Content-addressed object names, so the same file is only stored once. */
+export const getStorageKey = (data: Buffer, extension: string) => `${sha256(data)}.${extension}`;
@@ -0,0 +1,73 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { PublicKey } from '@solana/web3.js';
+import { PROMO_VALIDITY_MS, evaluatePromoRule, normalizePromoCode } from '../src/lib/promo-codes';
+import { PricedLaunch, getServiceFeeFeatures, getServiceFeeLines, isPricedCluster } from '../src/lib/service-fees';
+import { isKvConfigured } from './_kv';
+import { countRedemptions, findPromoRule, signPromo } from './_promo';
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const { code, walletAddress, cluster, launch } = req.body as {
+      code?: string;
+      walletAddress?: string;
+      cluster?: string;
+      launch?: PricedLaunch;
+    };
+    if (!code || !walletAddress || !cluster || typeof launch !== 'object' || launch === null) {
+      return res.status(400).json({ error: 'code, walletAddress, cluster and launch are required' });
+    }
+    if (!isPricedCluster(cluster)) {
+      return res.status(400).json({ error: 'Unsupported cluster' });
+    }
+    try {
+      new PublicKey(walletAddress);
+    } catch {
+      return res.status(400).json({ error: 'walletAddress is not a valid address' });
+    }
+    if (!process.env.PROMO_SIGNING_SECRET) {
+      console.error('PROMO_SIGNING_SECRET is not configured');
+      return res.status(500).json({ error: 'Promo codes are not available' });
+    }
+
+    const rule = findPromoRule(code);
+    if (!rule) {
+      return res.status(404).json({ error: 'Unknown promo code' });
+    }
+
+    if (rule.maxUses !== undefined && !isKvConfigured()) {
+      console.error(`Promo code ${rule.code} has maxUses but KV_REST_API_URL is not configured`);
+      return res.status(500).json({ error: 'Promo codes are not available' });
+    }
+
+    // The fee is priced here from the shared config, never taken from the client.
+    const serviceFees = getServiceFeeLines(cluster, launch);
+    let evaluation = evaluatePromoRule(rule, serviceFees);
+    // Uses are only counted here. One is taken when the fee API verifies a
+    // launch paid with the code, so applying it costs nothing.
+    if (evaluation.valid && rule.maxUses !== undefined) {
+      evaluation = evaluatePromoRule(rule, serviceFees, { uses: await countRedemptions(rule, cluster, walletAddress) });
+    }
+    if (evaluation.valid === false) {
+      return res.status(422).json({ error: evaluation.error });
+    }
+
+    const issuedAt = Date.now();
+    return res.status(200).json(signPromo({
+      code: normalizePromoCode(rule.code),
+      description: evaluation.description,
+      discountLamports: evaluation.discountLamports,
+      walletAddress,
+      cluster,
+      features: getServiceFeeFeatures(serviceFees),
+      issuedAt,
+      expiresAt: issuedAt + PROMO_VALIDITY_MS,
+    }));
+  } catch (error) {
+    console.error('Error validating promo code:', error);
+    return res.status(500).json({ error: 'Error validating promo code' });
+  }
+}
@@ -0,0 +1,111 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { createPublicKey, verify } from 'crypto';
+import { PublicKey } from '@solana/web3.js';
+import {
+  UPLOAD_AUTHORIZATION_TTL_MS,
+  UPLOAD_CONTENT_TYPES,
+  UploadAuthorization,
+  UploadRequest,
+  UploadResponse,
+  getUploadAuthorizationMessage,
+  validateUpload,
+} from '../src/lib/storage';
+import { consumeRateLimit } from './_rate-limit';
+import { getStorageKey, getStorageProvider } from './_storage';
+
+// Storage is paid for by the app, so uploads need a wallet's signature and
+// are rate limited per wallet and per client IP.
+const UPLOADS_PER_WALLET = 30;
+const UPLOADS_PER_IP = 60;
+const RATE_LIMIT_WINDOW_SECONDS = 60 * 60;
+// Leeway for a browser clock that runs ahead of the server's.
+const CLOCK_SKEW_MS = 60 * 1000;
+
+// Wraps a raw ed25519 public key in the DER header Node's crypto expects.
+const ED25519_SPKI_PREFIX = Buffer.from('302a300506032b6570032100', 'hex');
+
+// Returns why an upload authorization isn't valid for this host, or null if it is.
+const checkAuthorization = (authorization: UploadAuthorization | undefined, host: string) => {
+  if (!authorization?.walletAddress || !authorization.signature) {
+    return 'Uploads must be authorized by a wallet signature';
+  }
+  const { walletAddress, expiresAt, signature } = authorization;
+  const now = Date.now();
+  if (typeof expiresAt !== 'number' || expiresAt <= now || expiresAt > now + UPLOAD_AUTHORIZATION_TTL_MS + CLOCK_SKEW_MS) {
+    return 'The upload authorization has expired. Try again to sign a new one.';
+  }
+
+  let key;
+  try {
+    key = createPublicKey({
+      key: Buffer.concat([ED25519_SPKI_PREFIX, new PublicKey(walletAddress).toBuffer()]),
+      format: 'der',
+      type: 'spki',
+    });
+  } catch {
+    return 'The upload authorization names an invalid wallet';
+  }
+  const message = Buffer.from(getUploadAuthorizationMessage({ walletAddress, host, expiresAt }), 'utf8');
+  return verify(null, message, key, Buffer.from(signature, 'base64'))
+    ? null
+    : 'The upload authorization signature is invalid';
+};
+
+const getClientIp = (req: VercelRequest) => {
+  const forwarded = req.headers['x-forwarded-for'];
+  return (Array.isArray(forwarded) ? forwarded[0] : forwarded)?.split(',')[0].trim() || req.socket.remoteAddress || 'unknown';
+};
+
+// Stores a token logo or metadata JSON with the configured storage provider
+// and returns the URI it is served from.
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const { contentType, data: encoded, authorization } = req.body as Partial<UploadRequest>;
+    if (!contentType || !encoded) {
+      return res.status(400).json({ error: 'contentType and data are required' });
+    }
+
+    const unauthorized = checkAuthorization(authorization, req.headers.host ?? '');
+    if (unauthorized) {
+      return res.status(401).json({ error: unauthorized });
+    }
+    const withinLimits = await consumeRateLimit(`upload:ip:${getClientIp(req)}`, UPLOADS_PER_IP, RATE_LIMIT_WINDOW_SECONDS)
+      && await consumeRateLimit(`upload:wallet:${authorization.walletAddress}`, UPLOADS_PER_WALLET, RATE_LIMIT_WINDOW_SECONDS);
+    if (!withinLimits) {
+      return res.status(429).json({ error: 'Too many uploads. Please try again later.' });
+    }
+
+    const data = Buffer.from(encoded, 'base64');
+    const invalid = validateUpload(contentType, data.length);
+    if (invalid) {
+      return res.status(400).json({ error: invalid });
+    }
+    if (contentType === 'application/json') {
+      try {
+        JSON.parse(data.toString('utf8'));
+      } catch {
+        return res.status(400).json({ error: 'Metadata is not valid JSON' });
+      }
+    }
+
+    let provider;
+    try {
+      const protocol = req.headers['x-forwarded-proto'] ?? 'http';
+      provider = getStorageProvider(`${protocol}://${req.headers.host}`);
+    } catch (error) {
+      console.error('Storage is not configured:', error);
+      return res.status(500).json({ error: 'Uploads are not available' });
+    }
+
+    const uri = await provider.upload(getStorageKey(data, UPLOAD_CONTENT_TYPES[contentType]), data, contentType);
+    const response: UploadResponse = { uri, provider: provider.id };
+    return res.status(200).json(response);
+  } catch (error) {
+    console.error('Error uploading file:', error);
+    return res.status(502).json({ error: 'Upload failed, please try again' });
+  }
+}
@@ -0,0 +1,188 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { Connection, ParsedTransactionWithMeta, PublicKey, clusterApiUrl } from '@solana/web3.js';
+import { FEE_CURRENCIES } from '../src/config/fee-currencies';
+import { AppliedPromo } from '../src/lib/promo-codes';
+import {
+  PricedLaunch,
+  ServiceFeeFeature,
+  applyPromoDiscount,
+  getReferralShareLamports,
+  getServiceFeeFeatures,
+  getLaunchFeeMemo,
+  getServiceFeeLines,
+  isPricedCluster,
+  sumQuoteLines,
+} from '../src/lib/service-fees';
+import { createPriceFeedSource, lamportsToTokenAmount, splitTokenFee, staticPriceSource } from '../src/lib/token-fees';
+import { getMintFeatures } from './_mint';
+import { findPromoRule, recordRedemption, verifyPromo } from './_promo';
+
+const ENDPOINTS: Partial<Record<string, string>> = {
+  'mainnet-beta': process.env.QUICKNODE_ENDPOINT || clusterApiUrl('mainnet-beta'),
+  devnet: clusterApiUrl('devnet'),
+  testnet: clusterApiUrl('testnet'),
+};
+
+// What a wallet gained in the transaction: lamports, or base units of `mint`
+// across all of its token accounts for that mint.
+const getReceivedAmount = (transaction: ParsedTransactionWithMeta, owner: string, mint?: string) => {
+  const meta = transaction.meta;
+  if (!meta) {
+    return 0n;
+  }
+
+  if (!mint) {
+    const index = transaction.transaction.message.accountKeys.findIndex(
+      ({ pubkey }) => pubkey.toBase58() === owner
+    );
+    return index === -1 ? 0n : BigInt(meta.postBalances[index] - meta.preBalances[index]);
+  }
+
+  const sumBalances = (balances: typeof meta.postTokenBalances) =>
+    (balances ?? [])
+      .filter((balance) => balance.owner === owner && balance.mint === mint)
+      .reduce((total, { uiTokenAmount }) => total + BigInt(uiTokenAmount.amount), 0n);
+  return sumBalances(meta.postTokenBalances) - sumBalances(meta.preTokenBalances);
+};
+
+// Whether the transaction carries the memo naming the mint its fee pays for.
+const hasLaunchFeeMemo = (transaction: ParsedTransactionWithMeta, tokenMint: string) =>
+  transaction.transaction.message.instructions.some(
+    (instruction) => 'parsed' in instruction && instruction.program === 'spl-memo' && instruction.parsed === getLaunchFeeMemo(tokenMint)
+  );
+
+// Token fees are quoted by the browser when a launch starts, so a price that
+// has moved since by up to this much still counts as paid.
+const PRICE_TOLERANCE_PERCENT = 2n;
+
+const priceSource = process.env.PRICE_FEED_URL ? createPriceFeedSource(process.env.PRICE_FEED_URL) : staticPriceSource;
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const { cluster, signature, walletAddress, tokenMint, launch, promo, referrer, mint } = req.body as {
+      cluster?: string;
+      signature?: string;
+      walletAddress?: string;
+      tokenMint?: string;
+      launch?: PricedLaunch;
+      promo?: AppliedPromo;
+      referrer?: string;
+      mint?: string;
+    };
+    const endpoint = cluster && ENDPOINTS[cluster];
+    if (
+      !endpoint ||
+      !isPricedCluster(cluster) ||
+      !signature ||
+      !walletAddress ||
+      !tokenMint ||
+      typeof launch !== 'object' ||
+      launch === null
+    ) {
+      return res.status(400).json({ error: 'A supported cluster, signature, walletAddress, tokenMint and launch are required' });
+    }
+    let tokenMintKey: PublicKey;
+    try {
+      tokenMintKey = new PublicKey(tokenMint);
+    } catch {
+      return res.status(400).json({ error: 'tokenMint is not a valid address' });
+    }
+    const feeCollector = process.env.FEE_COLLECTOR_WALLET;
+    if (!feeCollector) {
+      console.error('FEE_COLLECTOR_WALLET is not configured');
+      return res.status(500).json({ error: 'Fee collector not configured' });
+    }
+    const currency = mint ? FEE_CURRENCIES[cluster].find((candidate) => candidate.mint === mint) : null;
+    if (mint && !currency) {
+      return res.status(400).json({ error: 'The fee is not accepted in this token' });
+    }
+
+    const connection = new Connection(endpoint, 'confirmed');
+    const transaction = await connection.getParsedTransaction(signature, {
+      commitment: 'confirmed',
+      maxSupportedTransactionVersion: 0,
+    });
+    if (!transaction) {
+      return res.status(404).json({ error: 'Transaction not found' });
+    }
+
+    const feePayer = transaction.transaction.message.accountKeys[0]?.pubkey.toBase58();
+    if (feePayer !== walletAddress) {
+      return res.status(200).json({ verified: false, received: '0', reason: 'The fee was not paid by this wallet' });
+    }
+
+    if (!hasLaunchFeeMemo(transaction, tokenMint)) {
+      return res.status(200).json({ verified: false, received: '0', reason: 'The fee was not paid for this mint' });
+    }
+
+    // The fee is priced here from the shared config. The declared options
+    // must cover every priced option the mint has on-chain, so none can be
+    // left out to pay less. A discount only counts with a promo this server
+    // signed for this launch.
+    const serviceFees = getServiceFeeLines(cluster, launch);
+    const mintFeatures = await getMintFeatures(connection, tokenMintKey);
+    if (!mintFeatures) {
+      return res.status(200).json({ verified: false, received: '0', reason: 'The mint does not exist' });
+    }
+    const declaredFeatures: ServiceFeeFeature[] = getServiceFeeFeatures(serviceFees);
+    const undeclared = mintFeatures.filter((feature) => !declaredFeatures.includes(feature));
+    if (undeclared.length > 0) {
+      return res.status(200).json({
+        verified: false,
+        received: '0',
+        reason: `The launch did not declare these options of the mint: ${undeclared.join(', ')}`,
+      });
+    }
+    if (promo) {
+      const invalid = verifyPromo(promo, {
+        walletAddress,
+        cluster,
+        features: declaredFeatures,
+        at: transaction.blockTime ? transaction.blockTime * 1000 : Date.now(),
+      });
+      if (invalid) {
+        return res.status(200).json({ verified: false, received: '0', reason: invalid });
+      }
+    }
+    const serviceFeeLamports = sumQuoteLines(applyPromoDiscount(serviceFees, promo));
+    // Nobody earns a referral on their own launch.
+    const payee = referrer && referrer !== walletAddress && referrer !== feeCollector ? referrer : null;
+    const shareLamports = payee ? getReferralShareLamports(cluster, serviceFeeLamports) : 0;
+
+    let expected = { remainder: BigInt(serviceFeeLamports - shareLamports), share: BigInt(shareLamports) };
+    if (currency && serviceFeeLamports > 0) {
+      const amount = lamportsToTokenAmount(serviceFeeLamports, await priceSource.getSolPrice(currency.symbol), currency.decimals);
+      const { remainder, share } = splitTokenFee({ amount: amount.toString() }, serviceFeeLamports, shareLamports);
+      const tolerate = (value: bigint) => (value * (100n - PRICE_TOLERANCE_PERCENT)) / 100n;
+      expected = { remainder: tolerate(remainder), share: tolerate(share) };
+    }
+
+    const received = transaction.meta?.err ? 0n : getReceivedAmount(transaction, feeCollector, mint);
+    const referrerReceived = payee && !transaction.meta?.err ? getReceivedAmount(transaction, payee, mint) : 0n;
+
+    const verified = received >= expected.remainder && referrerReceived >= expected.share;
+
+    // A capped code only uses up a redemption once a launch has paid with it.
+    const rule = verified && promo ? findPromoRule(promo.code) : undefined;
+    if (rule?.maxUses !== undefined && (await recordRedemption(rule, cluster, walletAddress)) >= rule.maxUses) {
+      return res.status(200).json({
+        verified: false,
+        received: received.toString(),
+        reason: 'This promo code has been fully redeemed',
+      });
+    }
+
+    return res.status(200).json({
+      verified,
+      received: received.toString(),
+      expected: expected.remainder.toString(),
+    });
+  } catch (error) {
+    console.error('Error verifying fee payment:', error);
+    return res.status(500).json({ error: 'Error verifying fee payment' });
+  }
+}
@@ -10,8 +10,14 @@ import {
 } from "@solana/wallet-adapter-react";
 import { WalletModalProvider } from "@solana/wallet-adapter-react-ui";
 import { PhantomWalletAdapter } from "@solana/wallet-adapter-wallets";
-import { clusterApiUrl } from "@solana/web3.js";
+import { ReactNode } from "react";
+import ClusterProvider from "./components/ClusterProvider";
+import { useCluster } from "./hooks/use-cluster";
 import Index from "./pages/Index";
+import Referrals from "./pages/Referrals";
+import LaunchReceipt from "./pages/LaunchReceipt";
+import Tokens from "./pages/Tokens";
+import ManageToken from "./pages/ManageToken";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -20,37 +26,41 @@ const queryClient = new QueryClient();
 const quickNodeEndpoint = import.meta.env.VITE_QUICKNODE_ENDPOINT;
 console.log("QuickNode Endpoint Config:", {
   exists: !!quickNodeEndpoint,
-  value: quickNodeEndpoint ? `https://${quickNodeEndpoint}` : 'Not configured'
 });
 
-// Use Solana's public mainnet-beta endpoint by default, or QuickNode if configured
-const endpoint = quickNodeEndpoint
-  ? `https://${quickNodeEndpoint}`
-  : clusterApiUrl("mainnet-beta");
-
-console.log("Using Solana endpoint:", endpoint);
-
 const wallets = [new PhantomWalletAdapter()];
 
+// The wallet connection follows whichever cluster is selected in the UI.
+const SolanaConnectionProvider = ({ children }: { children: ReactNode }) => {
+  const { endpoint } = useCluster();
+  return <ConnectionProvider endpoint={endpoint}>{children}</ConnectionProvider>;
+};
+
 const App = () => (
-  <ConnectionProvider endpoint={endpoint}>
-    <WalletProvider wallets={wallets} autoConnect>
-      <WalletModalProvider>
-        <QueryClientProvider client={queryClient}>
-          <TooltipProvider>
-            <Toaster />
-            <Sonner />
-            <BrowserRouter>
-              <Routes>
-                <Route path="/" element={<Index />} />
-                <Route path="*" element={<NotFound />} />
-              </Routes>
-            </BrowserRouter>
-          </TooltipProvider>
-        </QueryClientProvider>
-      </WalletModalProvider>
-    </WalletProvider>
-  </ConnectionProvider>
+  <ClusterProvider>
+    <SolanaConnectionProvider>
+      <WalletProvider wallets={wallets} autoConnect>
+        <WalletModalProvider>
+          <QueryClientProvider client={queryClient}>
+            <TooltipProvider>
+              <Toaster />
+              <Sonner />
+              <BrowserRouter>
+                <Routes>
+                  <Route path="/" element={<Index />} />
+                  <Route path="/referrals" element={<Referrals />} />
+                  <Route path="/launch/:mint" element={<LaunchReceipt />} />
+                  <Route path="/tokens" element={<Tokens />} />
+                  <Route path="/token/:mint/manage" element={<ManageToken />} />
+                  <Route path="*" element={<NotFound />} />
+                </Routes>
+              </BrowserRouter>
+            </TooltipProvider>
+          </QueryClientProvider>
+        </WalletModalProvider>
+      </WalletProvider>
+    </SolanaConnectionProvider>
+  </ClusterProvider>
 );
 
 export default App;
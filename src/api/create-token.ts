@@ -1,438 +1,748 @@
 
-import { Connection, PublicKey, Transaction, SystemProgram, Keypair, ComputeBudgetProgram, LAMPORTS_PER_SOL } from '@solana/web3.js';
-import { createMint, getOrCreateAssociatedTokenAccount, mintTo, TOKEN_PROGRAM_ID } from '@solana/spl-token';
-import { Buffer } from 'buffer';
-
-const FEE_COLLECTOR_WALLET = import.meta.env.VITE_FEE_COLLECTOR_WALLET;
-const QUICKNODE_ENDPOINT = import.meta.env.VITE_QUICKNODE_ENDPOINT;
-const TOKEN_METADATA_PROGRAM_ID = new PublicKey('metaqbxxUerdq28cj1RbAWkYQm3ybzjb6a8bt518x1s');
+import {
+  Connection,
+  PublicKey,
+  Transaction,
+  TransactionInstruction,
+  SystemProgram,
+  Keypair,
+  ComputeBudgetProgram,
+  LAMPORTS_PER_SOL,
+  PACKET_DATA_SIZE,
+} from '@solana/web3.js';
+import {
+  AuthorityType,
+  createAssociatedTokenAccountIdempotentInstruction,
+  createInitializeMint2Instruction,
+  createMintToInstruction,
+  createSetAuthorityInstruction,
+  createInitializeMetadataPointerInstruction,
+  createThawAccountInstruction,
+  getAssociatedTokenAddressSync,
+} from '@solana/spl-token';
+import bs58 from 'bs58';
+import {
+  LAUNCH_STAGES,
+  LaunchCheckpoint,
+  LaunchCheckpointTransaction,
+  LaunchStage,
+  clearLaunchCheckpoint,
+  decryptMintKeypair,
+  encryptMintKeypair,
+  saveLaunchCheckpoint,
+} from '@/lib/launch-checkpoint';
+import {
+  createMetadataInstruction,
+  getMetadataPDA,
+} from '@/api/token-metadata';
+import { AuthorityState, verifyLaunchAuthorities } from '@/api/launch-verification';
+import {
+  TokenExtensionSettings,
+  TokenProgramChoice,
+  createExtensionInstructions,
+  getEnabledExtensions,
+  getMintSpace,
+  getTokenProgramId,
+  validateExtensionSettings,
+} from '@/api/token-extensions';
+import {
+  MetadataMode,
+  OnMintMetadata,
+  createOnMintMetadataInstructions,
+  getAdditionalMetadataFields,
+} from '@/api/mint-metadata';
+import {
+  PrioritySpeed,
+  createComputeBudgetInstructions,
+  estimateComputeUnits,
+  getPriorityFeeLamports,
+  getPriorityFeeMicroLamports,
+  getWritableAccounts,
+  setComputeBudget,
+} from '@/api/priority-fees';
+import { simulateLaunchTransaction } from '@/api/launch-simulation';
+import { LaunchProgressListener } from '@/api/launch-progress';
+import {
+  InsufficientBalanceError,
+  PartialLaunchError,
+  RpcUnavailableError,
+  TokenCreationError,
+  toTokenCreationError,
+} from '@/api/token-creation-errors';
+import {
+  FEE_COLLECTOR_WALLET,
+  LAMPORTS_PER_SIGNATURE,
+  QuoteLine,
+  applyPromoDiscount,
+  buildLaunchQuote,
+  formatLamports,
+  getLaunchRent,
+  getReferralShareLamports,
+  getServiceFeeFeatures,
+  getServiceFeeLines,
+  solToLamports,
+  sumQuoteLines,
+} from '@/api/pricing';
+import { parseSupplyToBaseUnits } from '@/lib/supply';
+import { CLUSTER_LABELS, ClusterId } from '@/lib/clusters';
+import { AppliedPromo, getPromoMismatch } from '@/lib/promo-codes';
+import { createPromoMemoInstruction } from '@/api/promo';
+import {
+  SOL_FEE_CURRENCY,
+  TokenFeePayment,
+  createLaunchFeeMemoInstruction,
+  createTokenFeeInstructions,
+  formatTokenAmount,
+  getFeeCurrency,
+  getTokenFeeRequirements,
+  isTokenFeeQuoteExpired,
+  splitTokenFee,
+  verifyFeePayment,
+} from '@/api/fee-payment';
+
+const MAX_LAUNCH_TRANSACTIONS = 2;
+
+interface LaunchInstructionGroup {
+  stage: LaunchStage;
+  instructions: TransactionInstruction[];
+  signers: Keypair[];
+}
 
-const getFormattedEndpoint = (endpoint: string | undefined) => {
-  if (!endpoint) {
-    throw new Error('QuickNode endpoint is not configured');
-  }
-  
-  return !endpoint.startsWith('http://') && !endpoint.startsWith('https://')
-    ? `https://${endpoint}`
-    : endpoint;
-};
+interface PackedLaunchTransaction {
+  transaction: Transaction;
+  signers: Keypair[];
+  stages: LaunchStage[];
+}
 
-const getMetadataPDA = (mint: PublicKey): PublicKey => {
-  const [publicKey] = PublicKey.findProgramAddressSync(
-    [
-      Buffer.from('metadata'),
-      TOKEN_METADATA_PROGRAM_ID.toBuffer(),
-      mint.toBuffer(),
-    ],
-    TOKEN_METADATA_PROGRAM_ID
-  );
-  return publicKey;
-};
+export interface TokenLaunchParams {
+  name: string;
+  symbol: string;
+  // Hosted off-chain metadata JSON, uploaded before the launch starts.
+  uri?: string;
+  supply: string;
+  decimals: number;
+  authorities?: {
+    freezeAuthority: boolean;
+    mintAuthority: boolean;
+    updateAuthority: boolean;
+  };
+  creatorName?: string;
+  tokenProgram?: TokenProgramChoice;
+  extensions?: TokenExtensionSettings;
+  metadataMode?: MetadataMode;
+  website?: string;
+  twitter?: string;
+  telegram?: string;
+  discord?: string;
+}
 
-const fetchMetadata = async (connection: Connection, metadataPDA: PublicKey) => {
+const fitsInPacket = (transaction: Transaction) => {
   try {
-    const accountInfo = await connection.getAccountInfo(metadataPDA);
-    if (!accountInfo) {
-      throw new Error('Metadata account not found');
-    }
-    return accountInfo;
-  } catch (error) {
-    console.error('Error fetching metadata:', error);
-    throw error;
+    return transaction.serialize({ requireAllSignatures: false, verifySignatures: false }).length <= PACKET_DATA_SIZE;
+  } catch {
+    return false;
   }
 };
 
-const createMetadataInstruction = (
-  metadata: PublicKey,
-  mint: PublicKey,
-  mintAuthority: PublicKey,
-  payer: PublicKey,
-  updateAuthority: PublicKey,
-  name: string,
-  symbol: string,
-  creatorAddress?: string
+// Packs the launch into as few transactions as the packet size allows. Groups
+// are never split, so each stage lands or fails as a unit. Every transaction
+// starts with compute budget placeholders so the size check accounts for them.
+const packLaunchTransactions = (
+  groups: LaunchInstructionGroup[],
+  feePayer: PublicKey,
+  blockhash: string,
+  lastValidBlockHeight: number
 ) => {
-  // Create metadata JSON
-  const uri = JSON.stringify({
-    name,
-    symbol,
-    description: `${name} token`,
-    image: '', // Optional: Add image URL if available
-    attributes: [],
-    properties: {
-      files: [],
-      creators: creatorAddress ? [{
-        address: creatorAddress,
-        verified: true,
-        share: 100
-      }] : []
+  const createTransaction = (instructions: TransactionInstruction[] = []) => {
+    const transaction = new Transaction();
+    transaction.recentBlockhash = blockhash;
+    transaction.lastValidBlockHeight = lastValidBlockHeight;
+    transaction.feePayer = feePayer;
+    return transaction.add(...createComputeBudgetInstructions(), ...instructions);
+  };
+  const withoutComputeBudget = ({ instructions }: Transaction) =>
+    instructions.filter(({ programId }) => !programId.equals(ComputeBudgetProgram.programId));
+
+  const packed: PackedLaunchTransaction[] = [];
+  let current: PackedLaunchTransaction = { transaction: createTransaction(), signers: [], stages: [] };
+
+  for (const group of groups) {
+    const candidate = createTransaction([...withoutComputeBudget(current.transaction), ...group.instructions]);
+    if (fitsInPacket(candidate)) {
+      current = {
+        transaction: candidate,
+        signers: [...current.signers, ...group.signers],
+        stages: [...current.stages, group.stage],
+      };
+      continue;
     }
-  });
 
-  // Calculate buffer size (fixed size + variable parts)
-  const nameBuffer = Buffer.from(name);
-  const symbolBuffer = Buffer.from(symbol);
-  const uriBuffer = Buffer.from(uri);
-  
-  const bufferSize = 1 + // Instruction discriminator
-    32 + // Name max length
-    10 + // Symbol max length
-    200 + // URI max length
-    2 + // Seller fee basis points (u16)
-    1 + // Creator present bool
-    (creatorAddress ? 34 : 0); // Creator data if present
-
-  const buffer = Buffer.alloc(bufferSize);
-  let offset = 0;
-
-  // Write instruction discriminator (create metadata instruction)
-  buffer.writeUInt8(33, offset);
-  offset += 1;
-
-  // Write name with length prefix
-  nameBuffer.copy(buffer, offset, 0, Math.min(nameBuffer.length, 32));
-  offset += 32;
-
-  // Write symbol with length prefix
-  symbolBuffer.copy(buffer, offset, 0, Math.min(symbolBuffer.length, 10));
-  offset += 10;
-
-  // Write URI with length prefix
-  uriBuffer.copy(buffer, offset, 0, Math.min(uriBuffer.length, 200));
-  offset += 200;
-
-  // Write seller fee basis points (0)
-  buffer.writeUInt16LE(0, offset);
-  offset += 2;
-
-  // Write creator presence
-  buffer.writeUInt8(creatorAddress ? 1 : 0, offset);
-  offset += 1;
-
-  // Write creator data if present
-  if (creatorAddress) {
-    const creatorPubkey = new PublicKey(creatorAddress);
-    creatorPubkey.toBuffer().copy(buffer, offset);
-    offset += 32;
-    buffer.writeUInt8(1, offset); // verified = true
-    offset += 1;
-    buffer.writeUInt8(100, offset); // share = 100%
+    const standalone = createTransaction(group.instructions);
+    if (current.stages.length === 0 || !fitsInPacket(standalone)) {
+      throw new TokenCreationError('INVALID_LAUNCH', `Launch stage "${group.stage}" does not fit in a single transaction`);
+    }
+    packed.push(current);
+    current = { transaction: standalone, signers: [...group.signers], stages: [group.stage] };
   }
+  packed.push(current);
 
-  const transaction = new Transaction();
-  
-  // Add compute budget instruction
-  transaction.add(
-    ComputeBudgetProgram.setComputeUnitLimit({
-      units: 400000
-    })
-  );
+  if (packed.length > MAX_LAUNCH_TRANSACTIONS) {
+    throw new TokenCreationError(
+      'INVALID_LAUNCH',
+      `Launch needs ${packed.length} transactions, at most ${MAX_LAUNCH_TRANSACTIONS} are supported`
+    );
+  }
 
-  // Add metadata instruction
-  transaction.add({
-    keys: [
-      {
-        pubkey: metadata,
-        isSigner: false,
-        isWritable: true,
-      },
-      {
-        pubkey: mint,
-        isSigner: false,
-        isWritable: false,
-      },
-      {
-        pubkey: mintAuthority,
-        isSigner: true,
-        isWritable: false,
-      },
-      {
-        pubkey: payer,
-        isSigner: true,
-        isWritable: true,
-      },
-      {
-        pubkey: updateAuthority,
-        isSigner: false,
-        isWritable: false,
-      },
-      {
-        pubkey: SystemProgram.programId,
-        isSigner: false,
-        isWritable: false,
-      },
-      {
-        pubkey: TOKEN_METADATA_PROGRAM_ID,
-        isSigner: false,
-        isWritable: false,
-      },
-    ],
-    programId: TOKEN_METADATA_PROGRAM_ID,
-    data: buffer,
+  return packed;
+};
+
+// Settles transactions that were sent before the page went away. A transaction
+// whose blockhash is still valid may yet land, so resuming has to wait for it.
+const reconcileCheckpoint = async (connection: Connection, checkpoint: LaunchCheckpoint) => {
+  const pending = checkpoint.transactions.filter(({ status }) => status === 'pending');
+  if (pending.length === 0) {
+    return;
+  }
+
+  const { value: statuses } = await connection.getSignatureStatuses(
+    pending.map(({ signature }) => signature),
+    { searchTransactionHistory: true }
+  );
+  const blockHeight = await connection.getBlockHeight('confirmed');
+
+  pending.forEach((transaction, index) => {
+    const status = statuses[index];
+    if (status?.err) {
+      transaction.status = 'failed';
+    } else if (status?.confirmationStatus === 'confirmed' || status?.confirmationStatus === 'finalized') {
+      transaction.status = 'confirmed';
+      checkpoint.completedStages = [...new Set([...checkpoint.completedStages, ...transaction.stages])];
+    } else if (blockHeight > transaction.lastValidBlockHeight) {
+      transaction.status = 'failed';
+    } else {
+      throw new TokenCreationError(
+        'LAUNCH_PENDING',
+        'A previous launch transaction is still pending. Please try resuming again in a minute.'
+      );
+    }
   });
 
-  return transaction;
+  saveLaunchCheckpoint(checkpoint);
 };
 
-export async function createToken(data: {
-  name: string;
-  symbol: string;
-  supply: string;
-  decimals: number;
+export async function createToken(data: TokenLaunchParams & {
+  // The connection of the cluster selected in the UI, shared with the wallet.
+  connection: Connection;
+  cluster: ClusterId;
   walletAddress: string;
-  signTransaction: (transaction: Transaction) => Promise<Transaction>;
-  authorities?: {
-    freezeAuthority: boolean;
-    mintAuthority: boolean;
-    updateAuthority: boolean;
-  };
-  creatorName?: string;
+  signAllTransactions: <T extends Transaction>(transactions: T[]) => Promise<T[]>;
+  resume?: LaunchCheckpoint;
+  // A pre-generated mint signer, e.g. a vanity address. A fresh one is used otherwise.
+  mintKeypair?: Keypair;
+  prioritySpeed?: PrioritySpeed;
+  // A discount granted by the promo API for this wallet and these options.
+  promo?: AppliedPromo | null;
+  // The wallet that referred this launch, paid a share of the service fee.
+  referrer?: string | null;
+  // 'SOL' or the symbol of an accepted SPL token to pay the service fee in.
+  feeCurrency?: string;
+  // The token fee quote the user confirmed. A token fee is charged at exactly
+  // this amount, so the launch stops rather than re-quote once it expires.
+  feeQuote?: TokenFeePayment | null;
+  onProgress?: LaunchProgressListener;
 }) {
+  // Hoisted so a failure can report which stages had already landed, and
+  // which transaction was in flight.
+  let checkpoint: LaunchCheckpoint | undefined;
+  let launchStages: LaunchStage[] = LAUNCH_STAGES;
+  let inFlight: { stages: LaunchStage[]; signature?: string } | null = null;
+  const emit = data.onProgress ?? (() => {});
   try {
+    const { connection, ...launchData } = data;
     console.log("Starting token creation with data:", {
-      ...data,
+      ...launchData,
       walletAddress: data.walletAddress.substring(0, 4) + '...'
     });
 
-    const formattedEndpoint = getFormattedEndpoint(QUICKNODE_ENDPOINT);
-    console.log("Initializing Solana connection with endpoint");
-    const connection = new Connection(formattedEndpoint, 'confirmed');
-
     try {
       await connection.getVersion();
     } catch (error) {
       console.error("Failed to connect to Solana:", error);
-      throw new Error('Failed to connect to Solana network');
+      throw new RpcUnavailableError(undefined, error);
     }
 
-    const MINT_SPACE = 82;
-    const TOKEN_ACCOUNT_SPACE = 165;
-    const METADATA_SPACE = 679;
-    
-    const METADATA_REQUIRED_LAMPORTS = 3410880;
-    const MIN_MINT_RENT_LAMPORTS = 2461600;
-    
-    const calculatedMintRent = await connection.getMinimumBalanceForRentExemption(MINT_SPACE);
-    const mintRent = Math.max(calculatedMintRent, MIN_MINT_RENT_LAMPORTS);
-    const tokenAccountRent = await connection.getMinimumBalanceForRentExemption(TOKEN_ACCOUNT_SPACE);
-    
-    // Calculate base fee in SOL
-    let baseFee = 0.05;
-    if (data.authorities) {
-      if (data.authorities.freezeAuthority) baseFee += 0.1;
-      if (data.authorities.mintAuthority) baseFee += 0.1;
-      if (data.authorities.updateAuthority) baseFee += 0.1;
+    const baseServiceFees = getServiceFeeLines(data.cluster, data);
+    const promoMismatch = data.promo && !data.resume && getPromoMismatch(data.promo, {
+      walletAddress: data.walletAddress,
+      cluster: data.cluster,
+      features: getServiceFeeFeatures(baseServiceFees),
+    });
+    if (promoMismatch) {
+      throw new TokenCreationError('INVALID_LAUNCH', promoMismatch);
     }
-    if (data.creatorName) baseFee += 0.1;
-    
-    // Round to 2 decimal places first, then convert to lamports
-    baseFee = Number(baseFee.toFixed(2));
-    const serviceFeeInLamports = Math.floor(baseFee * LAMPORTS_PER_SOL);
-
-    const TX_FEE = 5000;
-    const NUM_TRANSACTIONS = 4;
-    const estimatedTxFees = TX_FEE * NUM_TRANSACTIONS;
-
-    const totalRequired = serviceFeeInLamports + 
-                         mintRent + 
-                         tokenAccountRent + 
-                         METADATA_REQUIRED_LAMPORTS +
-                         estimatedTxFees;
-
-    console.log("Cost breakdown (in lamports):", {
-      serviceFee: serviceFeeInLamports,
-      mintRent,
-      tokenAccountRent,
-      metadataRent: METADATA_REQUIRED_LAMPORTS,
-      estimatedTxFees,
-      totalRequired
+    let serviceFees: QuoteLine[] = applyPromoDiscount(baseServiceFees, data.promo);
+
+    const walletPublicKey = new PublicKey(data.walletAddress);
+    // Fail on a bad supply before a checkpoint is written for a launch that can't finish.
+    parseSupplyToBaseUnits(data.supply, data.decimals);
+    const extensionErrors = validateExtensionSettings({
+      tokenProgram: data.tokenProgram,
+      extensions: data.extensions,
+      decimals: data.decimals,
+      freezeAuthority: !!data.authorities?.freezeAuthority,
     });
-
-    const balance = await connection.getBalance(new PublicKey(data.walletAddress));
-    
-    if (balance < totalRequired) {
-      const requiredSOL = (totalRequired / LAMPORTS_PER_SOL).toFixed(4);
-      throw new Error(
-        `Insufficient balance. Required ${requiredSOL} SOL for:\n` +
-        `- Service fee: ${(serviceFeeInLamports / LAMPORTS_PER_SOL).toFixed(4)} SOL\n` +
-        `- Mint account rent: ${(mintRent / LAMPORTS_PER_SOL).toFixed(4)} SOL\n` +
-        `- Token account rent: ${(tokenAccountRent / LAMPORTS_PER_SOL).toFixed(4)} SOL\n` +
-        `- Metadata rent: ${(METADATA_REQUIRED_LAMPORTS / LAMPORTS_PER_SOL).toFixed(4)} SOL\n` +
-        `- Transaction fees: ${(estimatedTxFees / LAMPORTS_PER_SOL).toFixed(4)} SOL`
-      );
+    if (data.metadataMode === 'token-2022' && data.tokenProgram !== 'token-2022') {
+      extensionErrors.push('On-mint metadata requires the Token-2022 program');
     }
-
-    const latestBlockhash = await connection.getLatestBlockhash('finalized');
-    console.log("Got fresh blockhash:", latestBlockhash.blockhash);
-
-    console.log("Step 1: Paying service fee...");
-    const feeTransaction = new Transaction().add(
-      SystemProgram.transfer({
-        fromPubkey: new PublicKey(data.walletAddress),
-        toPubkey: new PublicKey(FEE_COLLECTOR_WALLET),
-        lamports: serviceFeeInLamports,
-      })
-    );
-
-    feeTransaction.recentBlockhash = latestBlockhash.blockhash;
-    feeTransaction.lastValidBlockHeight = latestBlockhash.lastValidBlockHeight;
-    feeTransaction.feePayer = new PublicKey(data.walletAddress);
-
-    const signedTransaction = await data.signTransaction(feeTransaction);
-    const feeSignature = await connection.sendRawTransaction(signedTransaction.serialize());
-    
-    const confirmationStrategy = {
-      signature: feeSignature,
-      blockhash: latestBlockhash.blockhash,
-      lastValidBlockHeight: latestBlockhash.lastValidBlockHeight
-    };
-
-    console.log("Waiting for fee transaction confirmation...");
-    const confirmation = await connection.confirmTransaction(confirmationStrategy);
-    
-    if (confirmation.value.err) {
-      throw new Error(`Fee transaction failed: ${confirmation.value.err}`);
+    if (extensionErrors.length > 0) {
+      throw new TokenCreationError('INVALID_LAUNCH', extensionErrors.join('\n'));
     }
 
-    console.log("Fee payment confirmed:", feeSignature);
-
-    const mintKeypair = Keypair.generate();
-    
-    const metadataAddress = getMetadataPDA(mintKeypair.publicKey);
-
-    const metadataBlockhash = await connection.getLatestBlockhash('finalized');
-    console.log("Got fresh blockhash for metadata transaction:", metadataBlockhash.blockhash);
-
-    console.log("Funding metadata account with exact amount:", METADATA_REQUIRED_LAMPORTS);
-    const fundMetadataAccountTx = new Transaction().add(
-      SystemProgram.transfer({
-        fromPubkey: new PublicKey(data.walletAddress),
-        toPubkey: metadataAddress,
-        lamports: METADATA_REQUIRED_LAMPORTS,
-      })
-    );
+    let mintKeypair: Keypair;
+    if (data.resume) {
+      checkpoint = data.resume;
+      if (checkpoint.walletAddress !== data.walletAddress) {
+        throw new TokenCreationError('INVALID_LAUNCH', 'This launch was started from a different wallet');
+      }
+      if (checkpoint.cluster && checkpoint.cluster !== data.cluster) {
+        throw new TokenCreationError(
+          'INVALID_LAUNCH',
+          `This launch was started on ${CLUSTER_LABELS[checkpoint.cluster]}. Switch networks to resume it.`
+        );
+      }
+      mintKeypair = await decryptMintKeypair(checkpoint);
+      await reconcileCheckpoint(connection, checkpoint);
+      // The fee that was quoted when the launch started is the one owed.
+      serviceFees = [{ label: 'Service Fee', lamports: solToLamports(checkpoint.feeAmount) }];
+      console.log("Resuming launch after stages:", checkpoint.completedStages);
+    } else {
+      const isTokenFee = !!data.feeCurrency && data.feeCurrency !== SOL_FEE_CURRENCY;
+      const feeCurrency = isTokenFee ? getFeeCurrency(data.cluster, data.feeCurrency) : null;
+      if (isTokenFee && !feeCurrency) {
+        throw new TokenCreationError('INVALID_LAUNCH', `${data.feeCurrency} is not accepted on ${CLUSTER_LABELS[data.cluster]}`);
+      }
+      // The conversion is fixed now, so a resumed launch pays what was quoted.
+      const feePayment = feeCurrency && sumQuoteLines(serviceFees) > 0 ? data.feeQuote ?? null : undefined;
+      if (feePayment === null) {
+        throw new TokenCreationError('INVALID_LAUNCH', `The ${feeCurrency.symbol} fee has not been quoted yet`);
+      }
+      if (feePayment && (feePayment.mint !== feeCurrency.mint || feePayment.lamports !== sumQuoteLines(serviceFees))) {
+        throw new TokenCreationError('QUOTE_EXPIRED', `The service fee changed since it was quoted in ${feeCurrency.symbol}`);
+      }
+      if (feePayment && isTokenFeeQuoteExpired(feePayment)) {
+        throw new TokenCreationError('QUOTE_EXPIRED', `The ${feeCurrency.symbol} fee quote has expired`);
+      }
+
+      mintKeypair = data.mintKeypair ?? Keypair.generate();
+      checkpoint = {
+        version: 1,
+        walletAddress: data.walletAddress,
+        cluster: data.cluster,
+        mintAddress: mintKeypair.publicKey.toBase58(),
+        encryptedMintKey: await encryptMintKeypair(mintKeypair),
+        params: {
+          name: data.name,
+          symbol: data.symbol,
+          uri: data.uri,
+          supply: data.supply,
+          decimals: data.decimals,
+          authorities: data.authorities,
+          creatorName: data.creatorName,
+          tokenProgram: data.tokenProgram,
+          extensions: data.extensions,
+          metadataMode: data.metadataMode,
+          website: data.website,
+          twitter: data.twitter,
+          telegram: data.telegram,
+          discord: data.discord,
+        },
+        feeAmount: sumQuoteLines(serviceFees) / LAMPORTS_PER_SOL,
+        feePayment,
+        promo: data.promo ?? undefined,
+        // Nobody earns a referral on their own launch.
+        referrer: data.referrer && data.referrer !== data.walletAddress && data.referrer !== FEE_COLLECTOR_WALLET
+          ? data.referrer
+          : undefined,
+        completedStages: [],
+        transactions: [],
+        createdAt: Date.now(),
+        updatedAt: Date.now(),
+      };
+      saveLaunchCheckpoint(checkpoint);
+    }
 
-    fundMetadataAccountTx.recentBlockhash = metadataBlockhash.blockhash;
-    fundMetadataAccountTx.lastValidBlockHeight = metadataBlockhash.lastValidBlockHeight;
-    fundMetadataAccountTx.feePayer = new PublicKey(data.walletAddress);
-    
-    const signedMetadataFundingTx = await data.signTransaction(fundMetadataAccountTx);
-    const metadataFundingSignature = await connection.sendRawTransaction(signedMetadataFundingTx.serialize());
-    
-    const metadataConfirmationStrategy = {
-      signature: metadataFundingSignature,
-      blockhash: metadataBlockhash.blockhash,
-      lastValidBlockHeight: metadataBlockhash.lastValidBlockHeight
+    const params = checkpoint.params;
+    const programId = getTokenProgramId(params.tokenProgram);
+    const extensions = getEnabledExtensions(params.tokenProgram, params.extensions);
+    const onMintMetadata = params.metadataMode === 'token-2022' && params.tokenProgram === 'token-2022';
+    const retainUpdateAuthority = !!params.authorities?.updateAuthority;
+    const mint = mintKeypair.publicKey;
+    const uri = params.uri;
+    if (!uri) {
+      throw new TokenCreationError('INVALID_LAUNCH', 'The token metadata has not been uploaded');
+    }
+    const mintMetadata: OnMintMetadata = {
+      name: params.name,
+      symbol: params.symbol,
+      uri,
+      additionalFields: getAdditionalMetadataFields(params),
     };
-
-    console.log("Waiting for metadata funding confirmation...");
-    const metadataConfirmation = await connection.confirmTransaction(metadataConfirmationStrategy);
-    
-    if (metadataConfirmation.value.err) {
-      throw new Error(`Metadata funding failed: ${metadataConfirmation.value.err}`);
+    // The mint is allocated without the metadata, which the token-metadata
+    // program reallocs in. Its rent is prefunded here.
+    const mintSpace = getMintSpace(extensions, onMintMetadata);
+    const rent = await getLaunchRent(connection, {
+      tokenProgram: params.tokenProgram,
+      extensions,
+      onMintMetadata: onMintMetadata ? mintMetadata : null,
+    });
+    const serviceFeeInLamports = sumQuoteLines(serviceFees);
+    const referralFeeInLamports = checkpoint.referrer
+      ? getReferralShareLamports(data.cluster, serviceFeeInLamports)
+      : 0;
+    const feeCollector = serviceFeeInLamports > 0 ? new PublicKey(FEE_COLLECTOR_WALLET) : null;
+    const tokenFeeSplit = checkpoint.feePayment
+      ? splitTokenFee(checkpoint.feePayment, serviceFeeInLamports, referralFeeInLamports)
+      : null;
+    const metadataAddress = onMintMetadata ? mint : getMetadataPDA(mint);
+    const tokenAccount = getAssociatedTokenAddressSync(mint, walletPublicKey, false, programId);
+    const supplyAmount = parseSupplyToBaseUnits(params.supply, params.decimals);
+
+    const supplyInstructions = [
+      createAssociatedTokenAccountIdempotentInstruction(
+        walletPublicKey,
+        tokenAccount,
+        walletPublicKey,
+        mint,
+        programId
+      ),
+    ];
+    // With a frozen default state the new account starts frozen and can't
+    // receive the supply until it is thawed.
+    if (extensions.includes('defaultAccountState') && params.extensions.defaultAccountState.state === 'frozen') {
+      supplyInstructions.push(
+        createThawAccountInstruction(tokenAccount, mint, walletPublicKey, [], programId)
+      );
     }
-
-    const mintFundBlockhash = await connection.getLatestBlockhash('finalized');
-    console.log("Got fresh blockhash for mint funding:", mintFundBlockhash.blockhash);
-
-    console.log("Step 2: Funding mint account...");
-    const fundMintAccountTx = new Transaction().add(
-      SystemProgram.transfer({
-        fromPubkey: new PublicKey(data.walletAddress),
-        toPubkey: mintKeypair.publicKey,
-        lamports: mintRent,
-      })
+    supplyInstructions.push(
+      createMintToInstruction(mint, tokenAccount, walletPublicKey, supplyAmount, [], programId)
     );
-    
-    fundMintAccountTx.recentBlockhash = mintFundBlockhash.blockhash;
-    fundMintAccountTx.lastValidBlockHeight = mintFundBlockhash.lastValidBlockHeight;
-    fundMintAccountTx.feePayer = new PublicKey(data.walletAddress);
-    
-    const signedFundingTx = await data.signTransaction(fundMintAccountTx);
-    const fundingSignature = await connection.sendRawTransaction(signedFundingTx.serialize());
-    
-    const mintFundingConfirmationStrategy = {
-      signature: fundingSignature,
-      blockhash: mintFundBlockhash.blockhash,
-      lastValidBlockHeight: mintFundBlockhash.lastValidBlockHeight
-    };
-
-    console.log("Waiting for mint funding confirmation...");
-    const mintFundingConfirmation = await connection.confirmTransaction(mintFundingConfirmationStrategy);
-    
-    if (mintFundingConfirmation.value.err) {
-      throw new Error(`Mint funding failed: ${mintFundingConfirmation.value.err}`);
+    if (!params.authorities?.mintAuthority) {
+      supplyInstructions.push(
+        createSetAuthorityInstruction(mint, walletPublicKey, AuthorityType.MintTokens, null, [], programId)
+      );
     }
 
-    const mint = await createMint(
-      connection,
-      mintKeypair,
-      new PublicKey(data.walletAddress),
-      data.authorities?.freezeAuthority ? new PublicKey(data.walletAddress) : null,
-      data.decimals,
-      undefined,
-      undefined,
-      TOKEN_PROGRAM_ID
-    );
+    // The service fee goes last so that, if the launch has to be split, the
+    // fee is only charged together with the final stage.
+    const launchGroups: LaunchInstructionGroup[] = [
+      {
+        stage: 'mint',
+        instructions: [
+          SystemProgram.createAccount({
+            fromPubkey: walletPublicKey,
+            newAccountPubkey: mint,
+            space: mintSpace,
+            lamports: rent.mint,
+            programId,
+          }),
+          ...(onMintMetadata
+            ? [createInitializeMetadataPointerInstruction(mint, retainUpdateAuthority ? walletPublicKey : null, mint, programId)]
+            : []),
+          ...createExtensionInstructions(mint, walletPublicKey, extensions, params.extensions, params.decimals),
+          createInitializeMint2Instruction(
+            mint,
+            params.decimals,
+            walletPublicKey,
+            params.authorities?.freezeAuthority ? walletPublicKey : null,
+            programId
+          ),
+        ],
+        signers: [mintKeypair],
+      },
+      {
+        stage: 'metadata',
+        instructions: onMintMetadata
+          ? createOnMintMetadataInstructions({
+              mint,
+              authority: walletPublicKey,
+              metadata: mintMetadata,
+              retainUpdateAuthority,
+            })
+          : [
+              createMetadataInstruction({
+                metadata: metadataAddress,
+                mint,
+                mintAuthority: walletPublicKey,
+                payer: walletPublicKey,
+                updateAuthority: walletPublicKey,
+                name: params.name,
+                symbol: params.symbol,
+                uri,
+                creatorAddress: params.creatorName ? data.walletAddress : undefined,
+                // The update authority can't be removed from metadata, so giving it up
+                // means locking the metadata instead.
+                isMutable: retainUpdateAuthority,
+              }),
+            ],
+        signers: [],
+      },
+      {
+        stage: 'supply',
+        instructions: supplyInstructions,
+        signers: [],
+      },
+    ];
+    // Free clusters have no fee to collect. A referrer's share is paid in the
+    // same transaction, so the fee can't land without it.
+    if (serviceFeeInLamports > 0) {
+      launchGroups.push({
+        stage: 'fee',
+        instructions: [
+          createLaunchFeeMemoInstruction(mint, walletPublicKey),
+          ...(checkpoint.feePayment
+            ? createTokenFeeInstructions(walletPublicKey, checkpoint.feePayment, [
+                { owner: feeCollector, amount: tokenFeeSplit.remainder },
+                ...(checkpoint.referrer ? [{ owner: new PublicKey(checkpoint.referrer), amount: tokenFeeSplit.share }] : []),
+              ])
+            : [
+                SystemProgram.transfer({
+                  fromPubkey: walletPublicKey,
+                  toPubkey: feeCollector,
+                  lamports: serviceFeeInLamports - referralFeeInLamports,
+                }),
+                ...(referralFeeInLamports > 0
+                  ? [SystemProgram.transfer({
+                      fromPubkey: walletPublicKey,
+                      toPubkey: new PublicKey(checkpoint.referrer),
+                      lamports: referralFeeInLamports,
+                    })]
+                  : []),
+              ]),
+          ...(checkpoint.promo ? [createPromoMemoInstruction(checkpoint.promo, walletPublicKey)] : []),
+        ],
+        signers: [],
+      });
+    }
+    launchStages = launchGroups.map(({ stage }) => stage);
+    const remainingGroups = launchGroups.filter(({ stage }) => !checkpoint.completedStages.includes(stage));
+
+    const signatures = checkpoint.transactions
+      .filter(({ status }) => status === 'confirmed')
+      .map(({ signature }) => signature);
+
+    let priorityFeeLamports = 0;
+    if (remainingGroups.length > 0) {
+      const latestBlockhash = await connection.getLatestBlockhash('finalized');
+      console.log("Got fresh blockhash:", latestBlockhash.blockhash);
+
+      const launchTransactions = packLaunchTransactions(
+        remainingGroups,
+        walletPublicKey,
+        latestBlockhash.blockhash,
+        latestBlockhash.lastValidBlockHeight
+      );
+      console.log("Launch packed into transactions:", launchTransactions.map(({ stages }) => stages.join(' + ')));
 
-    const createMetadataIx = createMetadataInstruction(
-      metadataAddress,
-      mint,
-      new PublicKey(data.walletAddress),
-      new PublicKey(data.walletAddress),
-      new PublicKey(data.walletAddress),
-      data.name,
-      data.symbol,
-      data.creatorName ? data.walletAddress : undefined
-    );
+      const microLamports = await getPriorityFeeMicroLamports(
+        connection,
+        getWritableAccounts(launchTransactions.map(({ transaction }) => transaction)),
+        data.prioritySpeed ?? 'normal'
+      );
+      for (const { transaction, stages } of launchTransactions) {
+        const units = await estimateComputeUnits(connection, transaction);
+        setComputeBudget(transaction, units, microLamports);
+        priorityFeeLamports += getPriorityFeeLamports(units, microLamports);
+        console.log(`Compute budget for ${stages.join(' + ')}:`, { units, microLamports });
+      }
+
+      const transactionFeeLamports = launchTransactions.reduce(
+        (total, { transaction }) => total + LAMPORTS_PER_SIGNATURE * transaction.signatures.length,
+        0
+      );
+      const remaining = (stage: LaunchStage) => !checkpoint.completedStages.includes(stage);
+
+      // A token fee needs the token balance, plus SOL rent for recipient token
+      // accounts that don't exist yet.
+      let feeAccountRent = 0;
+      if (checkpoint.feePayment && remaining('fee') && serviceFeeInLamports > 0) {
+        const { symbol, decimals, amount } = checkpoint.feePayment;
+        const requirements = await getTokenFeeRequirements(connection, walletPublicKey, checkpoint.feePayment, [
+          feeCollector,
+          ...(checkpoint.referrer ? [new PublicKey(checkpoint.referrer)] : []),
+        ]);
+        if (requirements.balance < BigInt(amount)) {
+          throw new InsufficientBalanceError({
+            currency: symbol,
+            required: formatTokenAmount(amount, decimals, symbol),
+            available: formatTokenAmount(requirements.balance, decimals, symbol),
+            lines: [],
+          });
+        }
+        feeAccountRent = requirements.accountRent;
+      }
+
+      const quote = buildLaunchQuote({
+        serviceFees: remaining('fee') && !checkpoint.feePayment ? serviceFees : [],
+        rent: {
+          mint: remaining('mint') ? rent.mint : 0,
+          tokenAccount: remaining('supply') ? rent.tokenAccount : 0,
+          metadata: remaining('metadata') ? rent.metadata : 0,
+        },
+        additionalRent: [{ label: 'Fee Token Account Rent', lamports: feeAccountRent }],
+        transactionFeeLamports,
+        priorityFeeLamports,
+      });
+      console.log("Launch quote:", quote);
+
+      const balance = await connection.getBalance(walletPublicKey);
+
+      if (balance < quote.totalLamports) {
+        throw new InsufficientBalanceError({
+          currency: 'SOL',
+          required: formatLamports(quote.totalLamports),
+          available: formatLamports(balance),
+          lines: [...quote.serviceFees, ...quote.rent, ...quote.networkFees],
+        });
+      }
+
+      // Later transactions build on accounts the first one creates, and RPC
+      // simulation can't stand in state that doesn't exist yet, so only the
+      // first is simulated before signing. The rest are simulated after the
+      // transactions they depend on have landed, right before they are sent,
+      // and the progress events say so.
+      inFlight = { stages: launchTransactions[0].stages };
+      await simulateLaunchTransaction(connection, launchTransactions[0].transaction, launchTransactions[0].stages);
+
+      console.log("Requesting wallet approval for all launch transactions...");
+      launchTransactions.forEach(({ stages }, index) => {
+        emit({ type: 'awaiting-signature', stages, simulated: index === 0, at: Date.now() });
+      });
+      const signedTransactions = await data.signAllTransactions(
+        launchTransactions.map(({ transaction }) => transaction)
+      );
 
-    const metadataInstrBlockhash = await connection.getLatestBlockhash('finalized');
-    createMetadataIx.recentBlockhash = metadataInstrBlockhash.blockhash;
-    createMetadataIx.feePayer = new PublicKey(data.walletAddress);
+      for (const [index, signedTransaction] of signedTransactions.entries()) {
+        const { signers, stages } = launchTransactions[index];
+        inFlight = { stages };
+        if (signers.length > 0) {
+          signedTransaction.partialSign(...signers);
+        }
+        if (index > 0) {
+          await simulateLaunchTransaction(connection, signedTransaction, stages);
+        }
+
+        // Record the signature before sending so a closed tab can still find out
+        // whether this transaction landed.
+        const checkpointTransaction: LaunchCheckpointTransaction = {
+          signature: bs58.encode(signedTransaction.signature),
+          stages,
+          lastValidBlockHeight: latestBlockhash.lastValidBlockHeight,
+          status: 'pending',
+        };
+        checkpoint.transactions.push(checkpointTransaction);
+        saveLaunchCheckpoint(checkpoint);
+
+        const signature = await connection.sendRawTransaction(signedTransaction.serialize());
+        inFlight = { stages, signature };
+        emit({ type: 'sent', stages, signature, at: Date.now() });
+        console.log(`Waiting for confirmation of ${stages.join(' + ')}...`);
+        const confirmation = await connection.confirmTransaction({
+          signature,
+          blockhash: latestBlockhash.blockhash,
+          lastValidBlockHeight: latestBlockhash.lastValidBlockHeight
+        });
+
+        if (confirmation.value.err) {
+          checkpointTransaction.status = 'failed';
+          saveLaunchCheckpoint(checkpoint);
+          throw new TokenCreationError(
+            'TRANSACTION_FAILED',
+            `Launch transaction (${stages.join(' + ')}) failed: ${JSON.stringify(confirmation.value.err)}`
+          );
+        }
+
+        checkpointTransaction.status = 'confirmed';
+        checkpoint.completedStages = [...checkpoint.completedStages, ...stages];
+        saveLaunchCheckpoint(checkpoint);
+
+        console.log("Launch transaction confirmed:", signature);
+        signatures.push(signature);
+        inFlight = null;
+        emit({ type: 'confirmed', stages, signature, at: Date.now() });
+      }
+    }
 
-    const signedMetadataTransaction = await data.signTransaction(createMetadataIx);
-    const metadataSignature = await connection.sendRawTransaction(signedMetadataTransaction.serialize());
-    await connection.confirmTransaction({
-      signature: metadataSignature,
-      blockhash: metadataInstrBlockhash.blockhash,
-      lastValidBlockHeight: metadataInstrBlockhash.lastValidBlockHeight
-    });
+    const feeSignature = checkpoint.transactions.find(
+      ({ status, stages }) => status === 'confirmed' && stages.includes('fee')
+    )?.signature;
 
-    const tokenAccount = await getOrCreateAssociatedTokenAccount(
-      connection,
-      mintKeypair,
-      mint,
-      new PublicKey(data.walletAddress),
-      undefined,
-      undefined,
-      undefined,
-      TOKEN_PROGRAM_ID
-    );
+    clearLaunchCheckpoint(data.walletAddress);
+    console.log("Token creation completed successfully!");
 
-    const supplyNumber = parseInt(data.supply.replace(/,/g, ''));
-    await mintTo(
-      connection,
-      mintKeypair,
-      mint,
-      tokenAccount.address,
-      new PublicKey(data.walletAddress),
-      supplyNumber,
-      [],
-      undefined,
-      TOKEN_PROGRAM_ID
-    );
+    // The fee is checked server-side; the launch has landed either way, so a
+    // failed check is reported on the receipt rather than thrown.
+    let feeVerified: boolean | null = null;
+    if (feeSignature) {
+      try {
+        feeVerified = await verifyFeePayment({
+          cluster: data.cluster,
+          signature: feeSignature,
+          walletAddress: data.walletAddress,
+          tokenMint: mint.toBase58(),
+          launch: params,
+          promo: checkpoint.promo,
+          referrer: checkpoint.referrer,
+          mint: checkpoint.feePayment?.mint,
+        });
+      } catch (error) {
+        console.error("Failed to verify fee payment:", error);
+      }
+    }
 
-    console.log("Token creation completed successfully!");
+    let authorityStates: AuthorityState[] | null = null;
+    try {
+      authorityStates = await verifyLaunchAuthorities(connection, {
+        mint,
+        programId,
+        onMintMetadata,
+        walletAddress: data.walletAddress,
+        authorities: params.authorities,
+      });
+    } catch (error) {
+      console.error("Failed to verify launch authorities:", error);
+    }
 
     return {
       success: true,
       tokenAddress: mint.toBase58(),
       metadataAddress: metadataAddress.toBase58(),
-      feeAmount: baseFee, // Return the fee in SOL
+      feeAmount: serviceFeeInLamports / LAMPORTS_PER_SOL, // Return the fee in SOL
       feeTransaction: feeSignature,
+      priorityFee: priorityFeeLamports / LAMPORTS_PER_SOL,
+      promo: checkpoint.promo,
+      referrer: checkpoint.referrer,
+      referralFee: referralFeeInLamports / LAMPORTS_PER_SOL,
+      feePayment: checkpoint.feePayment,
+      feeVerified,
+      signatures,
+      authorityStates,
     };
   } catch (error) {
     console.error('Error in createToken:', error instanceof Error ? error.message : 'Unknown error');
-    throw error;
+    const launchError = toTokenCreationError(error);
+    if (inFlight) {
+      emit({ type: 'failed', ...inFlight, error: launchError, at: Date.now() });
+    }
+    if (checkpoint && checkpoint.completedStages.length > 0 && !(launchError instanceof PartialLaunchError)) {
+      throw new PartialLaunchError({
+        mintAddress: checkpoint.mintAddress,
+        completedStages: checkpoint.completedStages,
+        remainingStages: launchStages.filter((stage) => !checkpoint.completedStages.includes(stage)),
+        signatures: checkpoint.transactions
+          .filter(({ status }) => status === 'confirmed')
+          .map(({ signature }) => signature),
+      }, launchError);
+    }
+    throw launchError;
   }
 }
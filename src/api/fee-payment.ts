@@ -0,0 +1,185 @@
+import { Connection, PublicKey, TransactionInstruction } from '@solana/web3.js';
+import { Buffer } from 'buffer';
+import {
+  createAssociatedTokenAccountIdempotentInstruction,
+  createTransferCheckedInstruction,
+  getAssociatedTokenAddressSync,
+} from '@solana/spl-token';
+import { FEE_CURRENCIES, FeeCurrency } from '@/config/fee-currencies';
+import { ClusterId } from '@/lib/clusters';
+import type { AppliedPromo } from '@/lib/promo-codes';
+import type { PricedLaunch } from '@/api/pricing';
+import { MEMO_PROGRAM_ID } from '@/api/promo';
+import { getTokenAccountSpace, getTokenProgramId } from '@/api/token-extensions';
+import { getLaunchFeeMemo } from '@/lib/service-fees';
+import {
+  PriceSource,
+  TokenFeePayment,
+  createPriceFeedSource,
+  lamportsToTokenAmount,
+  splitTokenFee,
+  staticPriceSource,
+} from '@/lib/token-fees';
+
+export const SOL_FEE_CURRENCY = 'SOL';
+
+const PRICE_FEED_URL = import.meta.env.VITE_PRICE_FEED_URL;
+
+// Clusters the fee verification API has an RPC endpoint for.
+const VERIFIABLE_CLUSTERS: ClusterId[] = ['mainnet-beta', 'devnet', 'testnet'];
+
+export { createPriceFeedSource, splitTokenFee, staticPriceSource };
+export type { PriceSource, TokenFeePayment };
+
+export const getPriceSource = (): PriceSource =>
+  PRICE_FEED_URL ? createPriceFeedSource(PRICE_FEED_URL) : staticPriceSource;
+
+export const getFeeCurrencies = (cluster: ClusterId) => FEE_CURRENCIES[cluster];
+
+export const getFeeCurrency = (cluster: ClusterId, symbol: string) =>
+  FEE_CURRENCIES[cluster].find((currency) => currency.symbol === symbol) ?? null;
+
+/** Formats base units of a token, e.g. 7500000n with 6 decimals as "7.5 USDC". */
+export const formatTokenAmount = (amount: bigint | string, decimals: number, symbol: string) => {
+  const value = BigInt(amount);
+  const base = 10n ** BigInt(decimals);
+  const fraction = (value % base).toString().padStart(decimals, '0').replace(/0+$/, '');
+  return `${value / base}${fraction ? `.${fraction}` : ''} ${symbol}`;
+};
+
+// How long a token fee quote shown to the user can be launched with.
+export const TOKEN_FEE_QUOTE_VALIDITY_MS = 2 * 60_000;
+
+export const isTokenFeeQuoteExpired = (quote: TokenFeePayment, now = Date.now()) =>
+  now - quote.quotedAt > TOKEN_FEE_QUOTE_VALIDITY_MS;
+
+/** Converts a service fee in lamports into the token's base units. */
+export const quoteTokenFee = async (
+  currency: FeeCurrency,
+  lamports: number,
+  source: PriceSource = getPriceSource()
+): Promise<TokenFeePayment> => {
+  const solPrice = await source.getSolPrice(currency.symbol);
+  return {
+    ...currency,
+    amount: lamportsToTokenAmount(lamports, solPrice, currency.decimals).toString(),
+    solPrice,
+    priceSource: source.name,
+    lamports,
+    quotedAt: Date.now(),
+  };
+};
+
+const getFeeTokenAccounts = (payment: TokenFeePayment, owners: PublicKey[]) => {
+  const mint = new PublicKey(payment.mint);
+  const programId = getTokenProgramId(payment.tokenProgram);
+  return owners.map((owner) => getAssociatedTokenAddressSync(mint, owner, true, programId));
+};
+
+/**
+ * Pays each recipient with `transferChecked`, creating their associated
+ * token account first if they don't have one yet.
+ */
+export const createTokenFeeInstructions = (
+  payer: PublicKey,
+  payment: TokenFeePayment,
+  payouts: { owner: PublicKey; amount: bigint }[]
+) => {
+  const mint = new PublicKey(payment.mint);
+  const programId = getTokenProgramId(payment.tokenProgram);
+  const [source] = getFeeTokenAccounts(payment, [payer]);
+
+  return payouts
+    .filter(({ amount }) => amount > 0n)
+    .flatMap(({ owner, amount }) => {
+      const [destination] = getFeeTokenAccounts(payment, [owner]);
+      return [
+        createAssociatedTokenAccountIdempotentInstruction(payer, destination, owner, mint, programId),
+        createTransferCheckedInstruction(source, mint, destination, payer, amount, payment.decimals, [], programId),
+      ];
+    });
+};
+
+/** Names the mint a fee transfer pays for, which the fee API checks the launch against. */
+export const createLaunchFeeMemoInstruction = (mint: PublicKey, signer: PublicKey) =>
+  new TransactionInstruction({
+    programId: MEMO_PROGRAM_ID,
+    keys: [{ pubkey: signer, isSigner: true, isWritable: false }],
+    data: Buffer.from(getLaunchFeeMemo(mint.toBase58()), 'utf8'),
+  });
+
+/**
+ * What paying a token fee needs from the wallet: its token balance, and rent
+ * for any recipient token accounts that have to be created.
+ */
+export const getTokenFeeRequirements = async (
+  connection: Connection,
+  payer: PublicKey,
+  payment: TokenFeePayment,
+  recipients: PublicKey[]
+) => {
+  const [source, ...destinations] = getFeeTokenAccounts(payment, [payer, ...recipients]);
+  const [sourceAccount, ...destinationAccounts] = await connection.getMultipleAccountsInfo([source, ...destinations]);
+  const balance = sourceAccount
+    ? BigInt((await connection.getTokenAccountBalance(source)).value.amount)
+    : 0n;
+  const missingAccounts = destinationAccounts.filter((account) => !account).length;
+  const accountRent = missingAccounts > 0
+    ? missingAccounts * await connection.getMinimumBalanceForRentExemption(getTokenAccountSpace(payment.tokenProgram))
+    : 0;
+
+  return { balance, accountRent };
+};
+
+/**
+ * Has the fee API check on-chain that the wallet paid the fee for the launch
+ * of `tokenMint`, in lamports or in base units of `mint`. The API prices the
+ * launch itself, checks the mint has no priced option the launch didn't
+ * declare, only honours a promo it can verify, and checks the referrer got its share.
+ * Returns null where the API can't reach the cluster.
+ */
+export const verifyFeePayment = async ({
+  cluster,
+  signature,
+  walletAddress,
+  tokenMint,
+  launch,
+  promo,
+  referrer,
+  mint,
+}: {
+  cluster: ClusterId;
+  signature: string;
+  walletAddress: string;
+  tokenMint: string;
+  launch: PricedLaunch;
+  promo?: AppliedPromo;
+  referrer?: string;
+  mint?: string;
+}) => {
+  const { authorities, creatorName, tokenProgram, extensions } = launch;
+  if (!VERIFIABLE_CLUSTERS.includes(cluster)) {
+    return null;
+  }
+
+  const response = await fetch('/api/verify-fee', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      cluster,
+      signature,
+      walletAddress,
+      tokenMint,
+      launch: { authorities, creatorName, tokenProgram, extensions },
+      promo,
+      referrer,
+      mint,
+    }),
+  });
+  const body = await response.json().catch(() => null);
+
+  if (!response.ok) {
+    throw new Error(body?.error ?? `Fee verification failed (${response.status})`);
+  }
+  return (body as { verified: boolean }).verified;
+};
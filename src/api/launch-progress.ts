@@ -0,0 +1,51 @@
+import { LaunchStage } from '@/lib/launch-checkpoint';
+import { TokenCreationError } from '@/api/token-creation-errors';
+
+// Stages are reported per transaction, so stages packed together move as one.
+// Other multi-step flows, such as token management, report their own step names.
+// `simulated` is false for a transaction that could only be simulated after
+// the wallet signed, because it depends on accounts an earlier one creates.
+export type LaunchProgressEvent<S extends string = LaunchStage> =
+  | { type: 'awaiting-signature'; stages: S[]; simulated: boolean; at: number }
+  | { type: 'sent'; stages: S[]; signature: string; at: number }
+  | { type: 'confirmed'; stages: S[]; signature: string; at: number }
+  | { type: 'failed'; stages: S[]; signature?: string; error: TokenCreationError; at: number };
+
+export type LaunchProgressListener<S extends string = LaunchStage> = (event: LaunchProgressEvent<S>) => void;
+
+export type LaunchStepStatus = LaunchProgressEvent['type'];
+
+export interface LaunchStep<S extends string = LaunchStage> {
+  stage: S;
+  status: LaunchStepStatus;
+  signature?: string;
+  startedAt: number;
+  simulated?: boolean;
+  // Set once the step is confirmed or failed.
+  finishedAt?: number;
+  error?: TokenCreationError;
+}
+
+/** Folds a progress event into the timeline. Steps keep the order they were first reported in. */
+export const applyLaunchProgressEvent = <S extends string>(
+  steps: LaunchStep<S>[],
+  event: LaunchProgressEvent<S>
+): LaunchStep<S>[] => {
+  const updated = new Map(steps.map((step) => [step.stage, step]));
+
+  for (const stage of event.stages) {
+    const previous = updated.get(stage);
+    const isFinished = event.type === 'confirmed' || event.type === 'failed';
+    updated.set(stage, {
+      stage,
+      status: event.type,
+      signature: 'signature' in event ? event.signature ?? previous?.signature : previous?.signature,
+      startedAt: previous && event.type !== 'awaiting-signature' ? previous.startedAt : event.at,
+      simulated: event.type === 'awaiting-signature' ? event.simulated : previous?.simulated,
+      finishedAt: isFinished ? event.at : undefined,
+      error: event.type === 'failed' ? event.error : undefined,
+    });
+  }
+
+  return [...updated.values()];
+};
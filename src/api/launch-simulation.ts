@@ -0,0 +1,128 @@
+import {
+  ASSOCIATED_TOKEN_PROGRAM_ID,
+  TOKEN_2022_PROGRAM_ID,
+  TOKEN_PROGRAM_ID,
+} from '@solana/spl-token';
+import {
+  ComputeBudgetProgram,
+  Connection,
+  LAMPORTS_PER_SOL,
+  SystemProgram,
+  Transaction,
+  TransactionError,
+  VersionedTransaction,
+} from '@solana/web3.js';
+import {
+  MAX_NAME_LENGTH,
+  MAX_SYMBOL_LENGTH,
+  MAX_URI_LENGTH,
+  TOKEN_METADATA_PROGRAM_ID,
+} from '@/api/token-metadata';
+import { SimulationFailedError } from '@/api/token-creation-errors';
+
+const PROGRAM_NAMES = new Map<string, string>([
+  [SystemProgram.programId.toBase58(), 'System Program'],
+  [ComputeBudgetProgram.programId.toBase58(), 'Compute Budget Program'],
+  [TOKEN_PROGRAM_ID.toBase58(), 'Token Program'],
+  [TOKEN_2022_PROGRAM_ID.toBase58(), 'Token-2022 Program'],
+  [ASSOCIATED_TOKEN_PROGRAM_ID.toBase58(), 'Associated Token Program'],
+  [TOKEN_METADATA_PROGRAM_ID.toBase58(), 'Metaplex Token Metadata'],
+]);
+
+const formatSol = (lamports: string) => `${(Number(lamports) / LAMPORTS_PER_SOL).toFixed(4)} SOL`;
+
+// Log lines that explain a failure better than the bare error code. Checked in
+// order, first match wins.
+const LOG_REASONS: [RegExp, (match: RegExpMatchArray) => string][] = [
+  [
+    /Transfer: insufficient lamports (\d+), need (\d+)/,
+    ([, has, needs]) => `Insufficient SOL: the wallet has ${formatSol(has)} but this step needs ${formatSol(needs)}`,
+  ],
+  [
+    /(?:Create Account|Allocate): account Address \{ address: (\w+)[^}]*\} already in use/,
+    ([, address]) => `Account already in use: ${address} already exists, so it can't be created again. Use a new mint address.`,
+  ],
+  [/Error: Name too long/, () => `Invalid metadata length: the name is longer than ${MAX_NAME_LENGTH} bytes`],
+  [/Error: Symbol too long/, () => `Invalid metadata length: the symbol is longer than ${MAX_SYMBOL_LENGTH} bytes`],
+  [/Error: Uri too long/, () => `Invalid metadata length: the metadata URI is longer than ${MAX_URI_LENGTH} bytes`],
+  [
+    /Lamport balance below rent-exempt threshold/,
+    () => 'Insufficient rent: a new account would not be rent-exempt',
+  ],
+  [/Error: insufficient funds/, () => 'The token account does not hold enough tokens'],
+  [/exceeded CUs meter|Computational budget exceeded/, () => 'The transaction ran out of compute units'],
+  [/Program log: (?:Error: |AnchorError.*Error Message: )(.+)/, ([, message]) => message],
+];
+
+const describeInstructionError = (
+  transaction: Transaction,
+  [index, detail]: [number, unknown]
+) => {
+  const programId = transaction.instructions[index]?.programId.toBase58();
+  const program = (programId && PROGRAM_NAMES.get(programId)) ?? programId ?? 'unknown program';
+  const code = typeof detail === 'object' && detail && 'Custom' in detail
+    ? `custom error 0x${(detail as { Custom: number }).Custom.toString(16)}`
+    : JSON.stringify(detail);
+  return `instruction ${index + 1} (${program}) failed with ${code}`;
+};
+
+/**
+ * Turns a simulation error and its program logs into a sentence a user can
+ * act on, falling back to the raw error when nothing recognisable was logged.
+ */
+export const decodeSimulationFailure = (
+  transaction: Transaction,
+  error: TransactionError | string,
+  logs: string[]
+) => {
+  for (const [pattern, describe] of LOG_REASONS) {
+    for (const line of logs) {
+      const match = line.match(pattern);
+      if (match) {
+        return describe(match);
+      }
+    }
+  }
+
+  if (error === 'AccountNotFound') {
+    return 'Insufficient SOL: the wallet has no balance on this network';
+  }
+  if (error === 'InsufficientFundsForFee') {
+    return 'Insufficient SOL to pay the network fee';
+  }
+  if (error === 'BlockhashNotFound') {
+    return 'The network blockhash expired. Please try again.';
+  }
+  if (typeof error === 'object' && 'InsufficientFundsForRent' in error) {
+    return 'Insufficient rent: an account would be left below its rent-exempt minimum';
+  }
+  if (typeof error === 'object' && 'InstructionError' in error) {
+    return describeInstructionError(transaction, (error as { InstructionError: [number, unknown] }).InstructionError);
+  }
+  return typeof error === 'string' ? error : JSON.stringify(error);
+};
+
+/**
+ * Simulates a launch or token management transaction exactly as it will be sent and throws a
+ * SimulationFailedError with the decoded reason if it would fail. Signatures
+ * are not checked, so this can run before the wallet signs.
+ */
+export const simulateLaunchTransaction = async (
+  connection: Connection,
+  transaction: Transaction,
+  stages: string[]
+) => {
+  const { value } = await connection.simulateTransaction(
+    new VersionedTransaction(transaction.compileMessage()),
+    { sigVerify: false, replaceRecentBlockhash: true, commitment: 'confirmed' }
+  );
+  const logs = value.logs ?? [];
+
+  if (value.err) {
+    console.error(`Simulation of ${stages.join(' + ')} failed:`, value.err, logs);
+    throw new SimulationFailedError(decodeSimulationFailure(transaction, value.err, logs), stages, logs);
+  }
+
+  console.log(`Simulation of ${stages.join(' + ')} succeeded using ${value.unitsConsumed} compute units`);
+  return { unitsConsumed: value.unitsConsumed, logs };
+};
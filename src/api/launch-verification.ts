@@ -0,0 +1,91 @@
+import { Connection, PublicKey } from '@solana/web3.js';
+import { TOKEN_PROGRAM_ID, getMint, getTokenMetadata } from '@solana/spl-token';
+import { fetchMetadata, getMetadataPDA } from '@/api/token-metadata';
+import { decodeMetadataAccount, getMetadataUpdateAuthority } from '@/api/metaplex-metadata';
+
+export type LaunchAuthority = 'mint' | 'freeze' | 'update';
+
+export interface AuthorityState {
+  authority: LaunchAuthority;
+  expected: 'retained' | 'revoked';
+  actual: 'retained' | 'revoked' | 'unexpected';
+  holder: string | null;
+  verified: boolean;
+}
+
+export const AUTHORITY_LABELS: Record<LaunchAuthority, string> = {
+  mint: 'Mint Authority',
+  freeze: 'Freeze Authority',
+  update: 'Update Authority',
+};
+
+const toAuthorityState = (
+  authority: LaunchAuthority,
+  retain: boolean,
+  holder: string | null,
+  walletAddress: string
+): AuthorityState => {
+  const actual = holder === null ? 'revoked' : holder === walletAddress ? 'retained' : 'unexpected';
+  const expected = retain ? 'retained' : 'revoked';
+  return { authority, expected, actual, holder, verified: actual === expected };
+};
+
+const readMetaplexUpdateAuthority = async (connection: Connection, mint: PublicKey) => {
+  const metadataAccount = await fetchMetadata(connection, getMetadataPDA(mint));
+  return getMetadataUpdateAuthority(decodeMetadataAccount(metadataAccount.data));
+};
+
+const readMintMetadataUpdateAuthority = async (connection: Connection, mint: PublicKey, programId: PublicKey) => {
+  const metadata = await getTokenMetadata(connection, mint, 'confirmed', programId);
+  if (!metadata) {
+    throw new Error('Token metadata extension not found on mint');
+  }
+  return metadata.updateAuthority?.toBase58() ?? null;
+};
+
+// Reads the mint and metadata accounts back after a launch and checks that each
+// authority ended up where the launch settings asked for it. Metadata cannot
+// drop its update authority, so "revoked" there means the metadata is immutable.
+export const verifyLaunchAuthorities = async (
+  connection: Connection,
+  {
+    mint,
+    programId = TOKEN_PROGRAM_ID,
+    onMintMetadata = false,
+    walletAddress,
+    authorities,
+  }: {
+    mint: PublicKey;
+    programId?: PublicKey;
+    onMintMetadata?: boolean;
+    walletAddress: string;
+    authorities?: {
+      freezeAuthority: boolean;
+      mintAuthority: boolean;
+      updateAuthority: boolean;
+    };
+  }
+) => {
+  const mintAccount = await getMint(connection, mint, 'confirmed', programId);
+  const updateAuthority = onMintMetadata
+    ? await readMintMetadataUpdateAuthority(connection, mint, programId)
+    : await readMetaplexUpdateAuthority(connection, mint);
+
+  const states = [
+    toAuthorityState('mint', !!authorities?.mintAuthority, mintAccount.mintAuthority?.toBase58() ?? null, walletAddress),
+    toAuthorityState('freeze', !!authorities?.freezeAuthority, mintAccount.freezeAuthority?.toBase58() ?? null, walletAddress),
+    toAuthorityState('update', !!authorities?.updateAuthority, updateAuthority, walletAddress),
+  ];
+
+  const mismatches = states.filter(({ verified }) => !verified);
+  if (mismatches.length > 0) {
+    console.warn('Launch authorities do not match the requested settings:', mismatches);
+  }
+
+  return states;
+};
+
+export const summarizeAuthorityStates = (states: AuthorityState[]) =>
+  states
+    .map(({ authority, actual, verified }) => `${AUTHORITY_LABELS[authority]}: ${actual}${verified ? '' : ' (mismatch)'}`)
+    .join(', ');
@@ -0,0 +1,178 @@
+import { Buffer } from 'buffer';
+import { TokenCreationError } from '@/api/token-creation-errors';
+import { OffChainMetadataFields, buildOffChainMetadata } from '@/api/token-metadata';
+import {
+  StorageProviderId,
+  UPLOAD_AUTHORIZATION_TTL_MS,
+  UploadAuthorization,
+  UploadResponse,
+  getUploadAuthorizationMessage,
+  validateUpload,
+} from '@/lib/storage';
+
+export type UploadStage = 'logo' | 'animation' | 'banner' | 'metadata';
+
+export const UPLOAD_STAGE_LABELS: Record<UploadStage, string> = {
+  logo: 'Uploading logo…',
+  animation: 'Uploading animated logo…',
+  banner: 'Uploading banner…',
+  metadata: 'Uploading metadata…',
+};
+
+export interface UploadProgress {
+  stage: UploadStage;
+  loaded: number;
+  total: number;
+}
+
+export type UploadProgressListener = (progress: UploadProgress) => void;
+
+/** Assets picked as files, uploaded before the JSON that links them. */
+export interface TokenMediaFiles {
+  logo?: File | null;
+  animatedLogo?: File | null;
+  banner?: File | null;
+}
+
+/** The wallet that authorizes uploads, with the wallet adapter's signMessage. */
+export interface UploadSigner {
+  walletAddress: string;
+  signMessage?: (message: Uint8Array) => Promise<Uint8Array>;
+}
+
+// Stands in for the hosted URI when sizing on-mint metadata before the upload.
+export const PLACEHOLDER_METADATA_URI = `https://gateway.irys.xyz/${'x'.repeat(43)}`;
+
+// Uploads already stored this session, by content hash. Retrying a launch
+// reuses them instead of storing (and on Arweave, paying for) them again.
+const uploaded = new Map<string, UploadResponse>();
+
+// One signature authorizes a wallet's uploads until it expires, so a launch
+// with several files asks the wallet once.
+const authorizations = new Map<string, UploadAuthorization>();
+// Renewed this long before expiry, so it can't lapse mid-upload.
+const AUTHORIZATION_RENEWAL_MS = 60 * 1000;
+
+const authorizeUploads = async ({ walletAddress, signMessage }: UploadSigner) => {
+  const saved = authorizations.get(walletAddress);
+  if (saved && saved.expiresAt - AUTHORIZATION_RENEWAL_MS > Date.now()) {
+    return saved;
+  }
+  if (!signMessage) {
+    throw new TokenCreationError('UPLOAD_FAILED', "Your wallet can't sign messages, which uploads need. Use a metadata URI instead.");
+  }
+
+  const expiresAt = Date.now() + UPLOAD_AUTHORIZATION_TTL_MS;
+  const message = getUploadAuthorizationMessage({ walletAddress, host: window.location.host, expiresAt });
+  let signature: Uint8Array;
+  try {
+    signature = await signMessage(new TextEncoder().encode(message));
+  } catch (error) {
+    throw new TokenCreationError('UPLOAD_FAILED', 'Uploads need your wallet to sign an authorization message', error);
+  }
+  const authorization = { walletAddress, expiresAt, signature: Buffer.from(signature).toString('base64') };
+  authorizations.set(walletAddress, authorization);
+  return authorization;
+};
+
+const hashContent = async (bytes: Uint8Array) =>
+  Buffer.from(await crypto.subtle.digest('SHA-256', bytes)).toString('hex');
+
+// XMLHttpRequest rather than fetch, which can't report upload progress.
+const postUpload = (body: string, onProgress: (loaded: number, total: number) => void) =>
+  new Promise<UploadResponse>((resolve, reject) => {
+    const request = new XMLHttpRequest();
+    request.open('POST', '/api/upload');
+    request.setRequestHeader('Content-Type', 'application/json');
+    request.upload.onprogress = (event) => {
+      if (event.lengthComputable) {
+        onProgress(event.loaded, event.total);
+      }
+    };
+    request.onload = () => {
+      let response: (UploadResponse & { error?: string }) | null = null;
+      try {
+        response = JSON.parse(request.responseText);
+      } catch {
+        // Reported below from the status.
+      }
+      if (request.status === 200 && response?.uri) {
+        resolve(response);
+      } else {
+        reject(new TokenCreationError('UPLOAD_FAILED', response?.error ?? `Upload failed (${request.status})`));
+      }
+    };
+    request.onerror = () => reject(new TokenCreationError('UPLOAD_FAILED', 'Could not reach the upload service'));
+    request.send(body);
+  });
+
+/** Stores one file with the configured storage provider and returns its URI. */
+export const uploadFile = async (
+  bytes: Uint8Array,
+  contentType: string,
+  signer: UploadSigner,
+  onProgress: (loaded: number, total: number) => void = () => {}
+) => {
+  const invalid = validateUpload(contentType, bytes.length);
+  if (invalid) {
+    throw new TokenCreationError('UPLOAD_FAILED', invalid);
+  }
+
+  const key = await hashContent(bytes);
+  const cached = uploaded.get(key);
+  if (cached) {
+    onProgress(bytes.length, bytes.length);
+    return cached;
+  }
+
+  const authorization = await authorizeUploads(signer);
+  const response = await postUpload(
+    JSON.stringify({ contentType, data: Buffer.from(bytes).toString('base64'), authorization }),
+    onProgress
+  );
+  uploaded.set(key, response);
+  return response;
+};
+
+/**
+ * Uploads the logo, animated logo and banner that are given as files, then
+ * Metaplex fungible-standard JSON that points at them, and returns the JSON's
+ * URI for the metadata account. Assets given as URLs are linked as they are.
+ */
+export const uploadTokenMetadata = async (
+  {
+    name,
+    symbol,
+    fields = {},
+    media = {},
+    signer,
+  }: {
+    name: string;
+    symbol: string;
+    fields?: OffChainMetadataFields;
+    media?: TokenMediaFiles;
+    signer: UploadSigner;
+  },
+  onProgress: UploadProgressListener = () => {}
+): Promise<{ uri: string; provider: StorageProviderId }> => {
+  const assets: OffChainMetadataFields = { ...fields, files: [...(fields.files ?? [])] };
+  const uploads: [UploadStage, 'image' | 'animationUrl' | 'banner', File | null | undefined][] = [
+    ['logo', 'image', media.logo],
+    ['animation', 'animationUrl', media.animatedLogo],
+    ['banner', 'banner', media.banner],
+  ];
+  for (const [stage, field, file] of uploads) {
+    if (file) {
+      const { uri } = await uploadFile(new Uint8Array(await file.arrayBuffer()), file.type, signer, (loaded, total) =>
+        onProgress({ stage, loaded, total })
+      );
+      assets[field] = uri;
+      assets.files!.push({ uri, type: file.type });
+    }
+  }
+
+  const json = JSON.stringify(buildOffChainMetadata(name, symbol, assets));
+  return uploadFile(new TextEncoder().encode(json), 'application/json', signer, (loaded, total) =>
+    onProgress({ stage: 'metadata', loaded, total })
+  );
+};
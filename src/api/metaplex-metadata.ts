@@ -0,0 +1,166 @@
+import { PublicKey } from '@solana/web3.js';
+
+// Account discriminator the token metadata program writes first.
+const METADATA_V1_KEY = 4;
+
+const TOKEN_STANDARDS = [
+  'NonFungible',
+  'FungibleAsset',
+  'Fungible',
+  'NonFungibleEdition',
+  'ProgrammableNonFungible',
+  'ProgrammableNonFungibleEdition',
+] as const;
+
+export type TokenStandard = (typeof TOKEN_STANDARDS)[number];
+
+export interface MetadataCreator {
+  address: string;
+  verified: boolean;
+  share: number;
+}
+
+export interface MetadataCollection {
+  key: string;
+  verified: boolean;
+}
+
+export interface MetadataUses {
+  useMethod: number;
+  remaining: bigint;
+  total: bigint;
+}
+
+/**
+ * A decoded Metaplex metadata account. Fields added after the first account
+ * version are null on accounts written before them.
+ */
+export interface MetaplexMetadata {
+  key: number;
+  updateAuthority: string;
+  mint: string;
+  name: string;
+  symbol: string;
+  uri: string;
+  sellerFeeBasisPoints: number;
+  creators: MetadataCreator[] | null;
+  primarySaleHappened: boolean;
+  isMutable: boolean;
+  editionNonce: number | null;
+  tokenStandard: TokenStandard | null;
+  collection: MetadataCollection | null;
+  uses: MetadataUses | null;
+}
+
+// Metaplex pads names, symbols and URIs with null bytes.
+export const trimPadding = (value: string) => value.replace(/\0/g, '').trim();
+
+const createReader = (data: Uint8Array) => {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  let offset = 0;
+
+  const take = (length: number) => {
+    if (offset + length > data.length) {
+      throw new RangeError('Metadata account ended early');
+    }
+    const start = offset;
+    offset += length;
+    return start;
+  };
+
+  const reader = {
+    hasMore: () => offset < data.length,
+    u8: () => view.getUint8(take(1)),
+    u16: () => view.getUint16(take(2), true),
+    u32: () => view.getUint32(take(4), true),
+    u64: () => view.getBigUint64(take(8), true),
+    bool: () => reader.u8() !== 0,
+    publicKey: () => new PublicKey(data.subarray(take(32), offset)).toBase58(),
+    string: () => {
+      const length = reader.u32();
+      return new TextDecoder().decode(data.subarray(take(length), offset));
+    },
+    option: <T>(read: () => T) => (reader.u8() === 0 ? null : read()),
+  };
+  return reader;
+};
+
+/**
+ * Decodes a metadata account. Accounts written by older program versions
+ * stop after `isMutable` or `editionNonce`, and fixed-size accounts are
+ * zero-padded; both read as absent trailing fields. Throws when the bytes
+ * are not a metadata account.
+ */
+export const decodeMetadataAccount = (data: Uint8Array): MetaplexMetadata => {
+  const reader = createReader(data);
+
+  const key = reader.u8();
+  if (key !== METADATA_V1_KEY) {
+    throw new Error(`Not a metadata account (key ${key})`);
+  }
+
+  const metadata: MetaplexMetadata = {
+    key,
+    updateAuthority: reader.publicKey(),
+    mint: reader.publicKey(),
+    name: trimPadding(reader.string()),
+    symbol: trimPadding(reader.string()),
+    uri: trimPadding(reader.string()),
+    sellerFeeBasisPoints: reader.u16(),
+    creators: reader.option(() =>
+      Array.from({ length: reader.u32() }, () => ({
+        address: reader.publicKey(),
+        verified: reader.bool(),
+        share: reader.u8(),
+      }))
+    ),
+    primarySaleHappened: reader.bool(),
+    isMutable: reader.bool(),
+    editionNonce: null,
+    tokenStandard: null,
+    collection: null,
+    uses: null,
+  };
+
+  // Everything after isMutable was appended in later versions. Keep whatever
+  // reads cleanly and leave the rest null.
+  try {
+    if (!reader.hasMore()) {
+      return metadata;
+    }
+    metadata.editionNonce = reader.option(reader.u8);
+    if (!reader.hasMore()) {
+      return metadata;
+    }
+    metadata.tokenStandard = reader.option(() => TOKEN_STANDARDS[reader.u8()] ?? null);
+    if (!reader.hasMore()) {
+      return metadata;
+    }
+    metadata.collection = reader.option(() => ({ verified: reader.bool(), key: reader.publicKey() }));
+    if (!reader.hasMore()) {
+      return metadata;
+    }
+    metadata.uses = reader.option(() => ({ useMethod: reader.u8(), remaining: reader.u64(), total: reader.u64() }));
+  } catch (error) {
+    console.warn('Ignoring unreadable trailing metadata fields:', error);
+  }
+
+  return metadata;
+};
+
+/** Like `decodeMetadataAccount`, but null for missing or unreadable accounts. */
+export const tryDecodeMetadataAccount = (data?: Uint8Array | null) => {
+  if (!data) {
+    return null;
+  }
+  try {
+    return decodeMetadataAccount(data);
+  } catch (error) {
+    console.error('Ignoring unreadable metadata account:', error);
+    return null;
+  }
+};
+
+/** Immutable metadata counts as having no update authority. */
+export const getMetadataUpdateAuthority = (metadata: MetaplexMetadata) =>
+  metadata.isMutable ? metadata.updateAuthority : null;
@@ -0,0 +1,233 @@
+import { Connection, PublicKey, SystemProgram, TransactionInstruction } from '@solana/web3.js';
+import { LENGTH_SIZE, TOKEN_2022_PROGRAM_ID, TYPE_SIZE, getTokenMetadata } from '@solana/spl-token';
+import {
+  Field,
+  TokenMetadata,
+  createInitializeInstruction,
+  createRemoveKeyInstruction,
+  createUpdateAuthorityInstruction,
+  createUpdateFieldInstruction,
+  pack,
+} from '@solana/spl-token-metadata';
+import {
+  hasMetadataFieldErrors,
+  readOffChainMetadata,
+  toOffChainMetadataFields,
+  validateMetadataFields,
+} from '@/api/token-metadata';
+
+/**
+ * Where token metadata lives: a Metaplex metadata account, or the mint itself
+ * through the Token-2022 metadata pointer and token-metadata extensions.
+ */
+export type MetadataMode = 'metaplex' | 'token-2022';
+
+export interface OnMintMetadata {
+  name: string;
+  symbol: string;
+  uri: string;
+  additionalFields: [string, string][];
+}
+
+export const getAdditionalMetadataFields = ({
+  website,
+  twitter,
+  telegram,
+  discord,
+  creatorName,
+}: {
+  website?: string;
+  twitter?: string;
+  telegram?: string;
+  discord?: string;
+  creatorName?: string;
+}): [string, string][] =>
+  (
+    [
+      ['website', website],
+      ['twitter', twitter],
+      ['telegram', telegram],
+      ['discord', discord],
+      ['creator', creatorName],
+    ] as [string, string | undefined][]
+  )
+    .filter(([, value]) => !!value?.trim())
+    .map(([key, value]) => [key, value.trim()]);
+
+// Additional fields the metadata editor manages; any others are left as they are.
+const SOCIAL_FIELDS = ['website', 'twitter', 'telegram', 'discord'] as const;
+
+/** Replaces the social links among a mint's additional fields, keeping the rest. */
+export const replaceSocialFields = (
+  additionalFields: readonly (readonly [string, string])[],
+  links: Partial<Record<(typeof SOCIAL_FIELDS)[number], string>>
+): [string, string][] => [
+  ...additionalFields
+    .filter(([key]) => !(SOCIAL_FIELDS as readonly string[]).includes(key))
+    .map(([key, value]): [string, string] => [key, value]),
+  ...getAdditionalMetadataFields(links),
+];
+
+// Bytes the token-metadata extension adds to the mint once every field is
+// written. The mint is created without them and grows as the metadata
+// instructions reallocate it, so its rent has to be paid up front.
+export const getOnMintMetadataSpace = (mint: PublicKey, authority: PublicKey, metadata: OnMintMetadata) =>
+  TYPE_SIZE +
+  LENGTH_SIZE +
+  pack({
+    mint,
+    updateAuthority: authority,
+    name: metadata.name,
+    symbol: metadata.symbol,
+    uri: metadata.uri,
+    additionalMetadata: metadata.additionalFields,
+  }).length;
+
+/**
+ * Writes the metadata into the mint. Runs after InitializeMint2, since the
+ * token-metadata initializer checks the mint authority's signature.
+ */
+export const createOnMintMetadataInstructions = ({
+  mint,
+  authority,
+  metadata,
+  retainUpdateAuthority,
+}: {
+  mint: PublicKey;
+  authority: PublicKey;
+  metadata: OnMintMetadata;
+  retainUpdateAuthority: boolean;
+}): TransactionInstruction[] => {
+  const programId = TOKEN_2022_PROGRAM_ID;
+
+  const instructions = [
+    createInitializeInstruction({
+      programId,
+      metadata: mint,
+      updateAuthority: authority,
+      mint,
+      mintAuthority: authority,
+      name: metadata.name,
+      symbol: metadata.symbol,
+      uri: metadata.uri,
+    }),
+    ...metadata.additionalFields.map(([field, value]) =>
+      createUpdateFieldInstruction({
+        programId,
+        metadata: mint,
+        updateAuthority: authority,
+        field,
+        value,
+      })
+    ),
+  ];
+
+  if (!retainUpdateAuthority) {
+    instructions.push(
+      createUpdateAuthorityInstruction({
+        programId,
+        metadata: mint,
+        oldAuthority: authority,
+        newAuthority: null,
+      })
+    );
+  }
+
+  return instructions;
+};
+
+/** The on-mint metadata as currently on-chain, with its off-chain JSON when readable. */
+export const fetchEditableOnMintMetadata = async (connection: Connection, mint: PublicKey) => {
+  const metadata = await getTokenMetadata(connection, mint, 'confirmed', TOKEN_2022_PROGRAM_ID);
+  if (!metadata) {
+    throw new Error('This mint has no on-mint metadata');
+  }
+  // Links written to the mint take precedence over the JSON's.
+  const links = Object.fromEntries(
+    metadata.additionalMetadata.filter(([key]) => (SOCIAL_FIELDS as readonly string[]).includes(key))
+  );
+  return {
+    source: 'token-2022' as const,
+    address: mint,
+    metadata,
+    offChain: { ...toOffChainMetadataFields(await readOffChainMetadata(metadata.uri)), ...links },
+  };
+};
+
+const byteLength = (value: string) => new TextEncoder().encode(value).length;
+
+/**
+ * Rewrites the on-mint metadata field by field, only where it changed. The
+ * token-metadata program reallocates the mint as fields change size but
+ * doesn't fund it, so the mint's rent is topped up first when the metadata
+ * grows. `makeImmutable` is permanent: nobody can update the metadata afterwards.
+ */
+export const createUpdateOnMintMetadataInstructions = async (
+  connection: Connection,
+  {
+    mint,
+    updateAuthority,
+    current,
+    metadata,
+    makeImmutable = false,
+  }: {
+    mint: PublicKey;
+    updateAuthority: PublicKey;
+    current: TokenMetadata;
+    metadata: OnMintMetadata;
+    makeImmutable?: boolean;
+  }
+): Promise<TransactionInstruction[]> => {
+  const errors = validateMetadataFields(metadata);
+  if (hasMetadataFieldErrors(errors)) {
+    throw new Error(Object.values(errors).join('\n'));
+  }
+
+  const programId = TOKEN_2022_PROGRAM_ID;
+  const currentValues = new Map<Field | string, string>([
+    [Field.Name, current.name],
+    [Field.Symbol, current.symbol],
+    [Field.Uri, current.uri],
+    ...current.additionalMetadata,
+  ]);
+  const nextKeys = new Set(metadata.additionalFields.map(([key]) => key));
+  const growth = (field: Field | string, value: string) => byteLength(value) - byteLength(currentValues.get(field) ?? '');
+
+  const removals = current.additionalMetadata
+    .filter(([key]) => !nextKeys.has(key))
+    .map(([key]) => createRemoveKeyInstruction({ programId, metadata: mint, updateAuthority, key, idempotent: true }));
+  const updates = ([
+    [Field.Name, metadata.name],
+    [Field.Symbol, metadata.symbol],
+    [Field.Uri, metadata.uri],
+    ...metadata.additionalFields,
+  ] as [Field | string, string][])
+    .filter(([field, value]) => currentValues.get(field) !== value)
+    // Fields that shrink go first, so the mint never grows past its final size.
+    .sort(([a, aValue], [b, bValue]) => growth(a, aValue) - growth(b, bValue))
+    .map(([field, value]) => createUpdateFieldInstruction({ programId, metadata: mint, updateAuthority, field, value }));
+
+  const instructions = [...removals, ...updates];
+  const currentSpace = getOnMintMetadataSpace(mint, updateAuthority, {
+    ...current,
+    additionalFields: current.additionalMetadata.map(([key, value]): [string, string] => [key, value]),
+  });
+  const addedSpace = getOnMintMetadataSpace(mint, updateAuthority, metadata) - currentSpace;
+  if (addedSpace > 0) {
+    const account = await connection.getAccountInfo(mint);
+    const required = await connection.getMinimumBalanceForRentExemption(account.data.length + addedSpace);
+    if (required > account.lamports) {
+      instructions.unshift(
+        SystemProgram.transfer({ fromPubkey: updateAuthority, toPubkey: mint, lamports: required - account.lamports })
+      );
+    }
+  }
+
+  if (makeImmutable) {
+    instructions.push(
+      createUpdateAuthorityInstruction({ programId, metadata: mint, oldAuthority: updateAuthority, newAuthority: null })
+    );
+  }
+
+  return instructions;
+};
@@ -0,0 +1,176 @@
+import { AccountInfo, Connection, PublicKey } from '@solana/web3.js';
+import { Buffer } from 'buffer';
+import {
+  ExtensionType,
+  TOKEN_2022_PROGRAM_ID,
+  TOKEN_PROGRAM_ID,
+  getExtensionData,
+  unpackMint,
+} from '@solana/spl-token';
+import { unpack as unpackTokenMetadata } from '@solana/spl-token-metadata';
+import { getMetadataPDA, readOffChainMetadata } from '@/api/token-metadata';
+import {
+  MetaplexMetadata,
+  getMetadataUpdateAuthority,
+  trimPadding,
+  tryDecodeMetadataAccount,
+} from '@/api/metaplex-metadata';
+import { TokenProgramChoice } from '@/api/token-extensions';
+
+export interface WalletAuthorities {
+  mint: boolean;
+  freeze: boolean;
+  update: boolean;
+}
+
+/** A mint the wallet launched or holds an authority over. */
+export interface OwnedToken {
+  mintAddress: string;
+  tokenProgram: TokenProgramChoice;
+  name: string;
+  symbol: string;
+  uri: string;
+  logo: string | null;
+  supply: bigint;
+  decimals: number;
+  mintAuthority: string | null;
+  freezeAuthority: string | null;
+  // Null when the metadata is immutable or missing.
+  updateAuthority: string | null;
+  metadataSource: 'metaplex' | 'token-2022' | null;
+  // The decoded metadata account, for tokens whose metadata is not on the mint.
+  metaplexMetadata: MetaplexMetadata | null;
+  authorities: WalletAuthorities;
+}
+
+// getMultipleAccountsInfo takes at most 100 keys per request.
+const ACCOUNT_BATCH_SIZE = 100;
+
+// Off-chain JSON is fetched a few tokens at a time, so a long list doesn't
+// open a request to every metadata host at once.
+const LOGO_FETCH_CONCURRENCY = 6;
+
+const getAccountsInBatches = async (connection: Connection, addresses: PublicKey[]) => {
+  const accounts = [];
+  for (let start = 0; start < addresses.length; start += ACCOUNT_BATCH_SIZE) {
+    accounts.push(...await connection.getMultipleAccountsInfo(addresses.slice(start, start + ACCOUNT_BATCH_SIZE)));
+  }
+  return accounts;
+};
+
+// Mints of every token account the wallet holds, under either token program.
+const getHeldMints = async (connection: Connection, owner: PublicKey) => {
+  const results = await Promise.all(
+    [TOKEN_PROGRAM_ID, TOKEN_2022_PROGRAM_ID].map((programId) =>
+      connection.getParsedTokenAccountsByOwner(owner, { programId })
+    )
+  );
+  return results.flatMap(({ value }) => value.map(({ account }) => account.data.parsed.info.mint as string));
+};
+
+const hasAnyAuthority = ({ mint, freeze, update }: WalletAuthorities) => mint || freeze || update;
+
+// Reads a mint account and its metadata, or returns null if the account isn't a mint.
+const decodeToken = (
+  mint: PublicKey,
+  mintAccount: AccountInfo<Buffer> | null,
+  metadataAccount: AccountInfo<Buffer> | null,
+  walletAddress: string
+): OwnedToken | null => {
+  if (!mintAccount || (!mintAccount.owner.equals(TOKEN_PROGRAM_ID) && !mintAccount.owner.equals(TOKEN_2022_PROGRAM_ID))) {
+    return null;
+  }
+
+  let mintInfo: ReturnType<typeof unpackMint>;
+  try {
+    mintInfo = unpackMint(mint, mintAccount, mintAccount.owner);
+  } catch {
+    // A token account rather than a mint, or an account we can't read.
+    return null;
+  }
+
+  const onMintMetadataData = getExtensionData(ExtensionType.TokenMetadata, mintInfo.tlvData);
+  const onMintMetadata = onMintMetadataData ? unpackTokenMetadata(onMintMetadataData) : null;
+  const metaplexMetadata = onMintMetadata ? null : tryDecodeMetadataAccount(metadataAccount?.data);
+
+  const updateAuthority = onMintMetadata
+    ? onMintMetadata.updateAuthority?.toBase58() ?? null
+    : metaplexMetadata ? getMetadataUpdateAuthority(metaplexMetadata) : null;
+  const metadata = onMintMetadata ?? metaplexMetadata;
+
+  return {
+    mintAddress: mint.toBase58(),
+    tokenProgram: mintAccount.owner.equals(TOKEN_2022_PROGRAM_ID) ? 'token-2022' : 'token',
+    name: metadata ? trimPadding(metadata.name) : '',
+    symbol: metadata ? trimPadding(metadata.symbol) : '',
+    uri: metadata ? trimPadding(metadata.uri) : '',
+    logo: null,
+    supply: mintInfo.supply,
+    decimals: mintInfo.decimals,
+    mintAuthority: mintInfo.mintAuthority?.toBase58() ?? null,
+    freezeAuthority: mintInfo.freezeAuthority?.toBase58() ?? null,
+    updateAuthority,
+    metadataSource: onMintMetadata ? 'token-2022' : metaplexMetadata ? 'metaplex' : null,
+    metaplexMetadata,
+    authorities: {
+      mint: mintInfo.mintAuthority?.toBase58() === walletAddress,
+      freeze: mintInfo.freezeAuthority?.toBase58() === walletAddress,
+      update: updateAuthority === walletAddress,
+    },
+  };
+};
+
+/** Reads a logo from the off-chain JSON a metadata URI points to. */
+export const resolveTokenLogo = async (uri: string): Promise<string | null> => {
+  const json = await readOffChainMetadata(uri);
+  return typeof json?.image === 'string' ? json.image : null;
+};
+
+/**
+ * Finds the mints the wallet is mint, freeze or update authority of. Mints
+ * launched from this device are passed in as `knownMints`, since the wallet
+ * may no longer hold any of their tokens.
+ */
+export const fetchOwnedTokens = async (connection: Connection, owner: PublicKey, knownMints: string[] = []) => {
+  const walletAddress = owner.toBase58();
+  const mintAddresses = [...new Set([...knownMints, ...await getHeldMints(connection, owner)])];
+  const mints = mintAddresses.map((address) => new PublicKey(address));
+
+  const [mintAccounts, metadataAccounts] = await Promise.all([
+    getAccountsInBatches(connection, mints),
+    getAccountsInBatches(connection, mints.map(getMetadataPDA)),
+  ]);
+
+  const tokens: OwnedToken[] = [];
+  mints.forEach((mint, index) => {
+    const token = decodeToken(mint, mintAccounts[index], metadataAccounts[index], walletAddress);
+    // Launches from this device stay listed once every authority is revoked.
+    if (token && (hasAnyAuthority(token.authorities) || knownMints.includes(token.mintAddress))) {
+      tokens.push(token);
+    }
+  });
+
+  let next = 0;
+  const resolveNextLogos = async () => {
+    while (next < tokens.length) {
+      const token = tokens[next++];
+      token.logo = token.uri ? await resolveTokenLogo(token.uri) : null;
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(LOGO_FETCH_CONCURRENCY, tokens.length) }, resolveNextLogos));
+
+  return tokens;
+};
+
+/**
+ * Reads a single mint with the wallet's authorities over it, or null if it
+ * isn't a mint. Without an owner, every authority is reported as not held.
+ */
+export const fetchToken = async (connection: Connection, mint: PublicKey, owner?: PublicKey) => {
+  const [mintAccount, metadataAccount] = await connection.getMultipleAccountsInfo([mint, getMetadataPDA(mint)]);
+  const token = decodeToken(mint, mintAccount, metadataAccount, owner?.toBase58() ?? '');
+  if (token?.uri) {
+    token.logo = await resolveTokenLogo(token.uri);
+  }
+  return token;
+};
@@ -0,0 +1,112 @@
+import { Connection, LAMPORTS_PER_SOL, PublicKey } from '@solana/web3.js';
+import { METADATA_ACCOUNT_SPACE } from '@/api/token-metadata';
+import {
+  TokenExtensionKey,
+  TokenProgramChoice,
+  getMintSpace,
+  getTokenAccountSpace,
+} from '@/api/token-extensions';
+import { OnMintMetadata, getOnMintMetadataSpace } from '@/api/mint-metadata';
+import { QuoteLine, sumQuoteLines } from '@/lib/service-fees';
+
+// Fee lines are priced in a module the promo and fee APIs share.
+export {
+  applyPromoDiscount,
+  getExtensionFeeLamports,
+  getPricingSchedule,
+  getReferralShareLamports,
+  getServiceFeeFeatures,
+  getServiceFeeLamports,
+  getServiceFeeLines,
+  solToLamports,
+  sumQuoteLines,
+} from '@/lib/service-fees';
+export type { PricedLaunch, QuoteLine, ServiceFeeFeature } from '@/lib/service-fees';
+
+export const FEE_COLLECTOR_WALLET = import.meta.env.VITE_FEE_COLLECTOR_WALLET;
+
+export const LAMPORTS_PER_SIGNATURE = 5000;
+// A launch is usually two transactions: the first signed by the wallet and
+// the mint, the second by the wallet alone.
+export const ESTIMATED_LAUNCH_SIGNATURES = 3;
+
+export interface LaunchRent {
+  mint: number;
+  tokenAccount: number;
+  metadata: number;
+}
+
+export interface LaunchQuote {
+  serviceFees: QuoteLine[];
+  rent: QuoteLine[];
+  networkFees: QuoteLine[];
+  serviceFeeLamports: number;
+  totalLamports: number;
+}
+
+/** Formats lamports as SOL without trailing zeros, e.g. "0.05 SOL". */
+export const formatLamports = (lamports: number) => `${Number((lamports / LAMPORTS_PER_SOL).toFixed(6))} SOL`;
+
+/**
+ * Rent for the accounts a launch creates, from the cluster's live rent
+ * parameters. On-mint metadata lives in the mint account, so its rent is part
+ * of the mint's.
+ */
+export const getLaunchRent = async (
+  connection: Connection,
+  { tokenProgram, extensions, onMintMetadata }: {
+    tokenProgram?: TokenProgramChoice;
+    extensions: TokenExtensionKey[];
+    onMintMetadata: OnMintMetadata | null;
+  }
+): Promise<LaunchRent> => {
+  const mintSpace = getMintSpace(extensions, !!onMintMetadata) +
+    (onMintMetadata ? getOnMintMetadataSpace(PublicKey.default, PublicKey.default, onMintMetadata) : 0);
+
+  const [mint, tokenAccount, metadata] = await Promise.all([
+    connection.getMinimumBalanceForRentExemption(mintSpace),
+    connection.getMinimumBalanceForRentExemption(getTokenAccountSpace(tokenProgram, extensions)),
+    onMintMetadata ? 0 : connection.getMinimumBalanceForRentExemption(METADATA_ACCOUNT_SPACE),
+  ]);
+
+  return { mint, tokenAccount, metadata };
+};
+
+export const buildLaunchQuote = ({
+  serviceFees,
+  rent,
+  transactionFeeLamports,
+  priorityFeeLamports,
+  additionalRent = [],
+}: {
+  serviceFees: QuoteLine[];
+  rent: LaunchRent;
+  transactionFeeLamports: number;
+  priorityFeeLamports: number;
+  additionalRent?: QuoteLine[];
+}): LaunchQuote => {
+  const rentLines = [
+    { label: 'Mint Account Rent', lamports: rent.mint },
+    { label: 'Token Account Rent', lamports: rent.tokenAccount },
+    { label: 'Metadata Rent', lamports: rent.metadata },
+    ...additionalRent,
+  ].filter(({ lamports }) => lamports > 0);
+  const networkFees = [
+    { label: 'Transaction Fees', lamports: transactionFeeLamports },
+    { label: 'Priority Fees', lamports: priorityFeeLamports },
+  ];
+  const serviceFeeLamports = sumQuoteLines(serviceFees);
+
+  return {
+    serviceFees,
+    rent: rentLines,
+    networkFees,
+    serviceFeeLamports,
+    totalLamports: serviceFeeLamports + sumQuoteLines(rentLines) + sumQuoteLines(networkFees),
+  };
+};
+
+export const formatQuoteLines = (quote: LaunchQuote) =>
+  [...quote.serviceFees, ...quote.rent, ...quote.networkFees]
+    .map(({ label, lamports }) => `- ${label}: ${formatLamports(lamports)}`)
+    .join('\n');
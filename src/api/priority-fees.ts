@@ -0,0 +1,124 @@
+import {
+  ComputeBudgetProgram,
+  Connection,
+  PublicKey,
+  Transaction,
+  TransactionInstruction,
+  VersionedTransaction,
+} from '@solana/web3.js';
+
+export type PrioritySpeed = 'economy' | 'normal' | 'turbo';
+
+export const PRIORITY_SPEEDS: PrioritySpeed[] = ['economy', 'normal', 'turbo'];
+
+export const PRIORITY_SPEED_LABELS: Record<PrioritySpeed, string> = {
+  economy: 'Economy',
+  normal: 'Normal',
+  turbo: 'Turbo',
+};
+
+// Percentile of recent prioritization fees each speed bids at.
+const PRIORITY_SPEED_PERCENTILES: Record<PrioritySpeed, number> = {
+  economy: 0.25,
+  normal: 0.5,
+  turbo: 0.9,
+};
+
+// Floor in micro-lamports per compute unit, so quiet slots don't produce a zero bid.
+const MIN_MICRO_LAMPORTS: Record<PrioritySpeed, number> = {
+  economy: 1_000,
+  normal: 10_000,
+  turbo: 100_000,
+};
+
+export const MAX_COMPUTE_UNITS = 1_400_000;
+const COMPUTE_UNIT_MARGIN = 1.1;
+const MIN_COMPUTE_UNITS = 1_000;
+// Used when a transaction can't be simulated yet because it depends on an
+// earlier one in the same launch.
+const FALLBACK_COMPUTE_UNITS_PER_INSTRUCTION = 100_000;
+
+// Rough compute used by a full launch, for estimating the priority fee before
+// the transactions exist.
+export const ESTIMATED_LAUNCH_COMPUTE_UNITS = 150_000;
+
+const isComputeBudgetInstruction = (instruction: TransactionInstruction) =>
+  instruction.programId.equals(ComputeBudgetProgram.programId);
+
+export const createComputeBudgetInstructions = (units = MAX_COMPUTE_UNITS, microLamports = 0) => [
+  ComputeBudgetProgram.setComputeUnitLimit({ units }),
+  ComputeBudgetProgram.setComputeUnitPrice({ microLamports }),
+];
+
+export const getPriorityFeeMicroLamports = async (
+  connection: Connection,
+  writableAccounts: PublicKey[],
+  speed: PrioritySpeed
+) => {
+  try {
+    const recentFees = await connection.getRecentPrioritizationFees({
+      lockedWritableAccounts: writableAccounts.slice(0, 128),
+    });
+    const fees = recentFees.map(({ prioritizationFee }) => prioritizationFee).sort((a, b) => a - b);
+    const percentileFee = fees.length > 0
+      ? fees[Math.min(fees.length - 1, Math.floor(fees.length * PRIORITY_SPEED_PERCENTILES[speed]))]
+      : 0;
+    return Math.max(percentileFee, MIN_MICRO_LAMPORTS[speed]);
+  } catch (error) {
+    console.error('Failed to fetch recent prioritization fees:', error);
+    return MIN_MICRO_LAMPORTS[speed];
+  }
+};
+
+export const getPriorityFeeLamports = (units: number, microLamports: number) =>
+  Math.ceil((units * microLamports) / 1_000_000);
+
+/**
+ * Simulates the transaction with the maximum compute limit and returns the
+ * units it consumed, padded with a safety margin.
+ */
+export const estimateComputeUnits = async (connection: Connection, transaction: Transaction) => {
+  const instructions = transaction.instructions.filter((instruction) => !isComputeBudgetInstruction(instruction));
+  const simulationTransaction = new Transaction({
+    feePayer: transaction.feePayer,
+    recentBlockhash: transaction.recentBlockhash,
+  }).add(...createComputeBudgetInstructions(MAX_COMPUTE_UNITS), ...instructions);
+
+  try {
+    const { value } = await connection.simulateTransaction(
+      new VersionedTransaction(simulationTransaction.compileMessage()),
+      { sigVerify: false, replaceRecentBlockhash: true, commitment: 'confirmed' }
+    );
+    if (!value.err && value.unitsConsumed) {
+      return Math.min(
+        MAX_COMPUTE_UNITS,
+        Math.max(MIN_COMPUTE_UNITS, Math.ceil(value.unitsConsumed * COMPUTE_UNIT_MARGIN))
+      );
+    }
+    console.warn('Compute simulation did not succeed, using fallback limit:', value.err);
+  } catch (error) {
+    console.warn('Compute simulation failed, using fallback limit:', error);
+  }
+
+  return Math.min(MAX_COMPUTE_UNITS, instructions.length * FALLBACK_COMPUTE_UNITS_PER_INSTRUCTION);
+};
+
+/** Replaces the compute budget placeholders at the start of a launch transaction. */
+export const setComputeBudget = (transaction: Transaction, units: number, microLamports: number) => {
+  const instructions = transaction.instructions.filter((instruction) => !isComputeBudgetInstruction(instruction));
+  transaction.instructions = [...createComputeBudgetInstructions(units, microLamports), ...instructions];
+};
+
+export const getWritableAccounts = (transactions: Transaction[]) => {
+  const accounts = new Map<string, PublicKey>();
+  for (const transaction of transactions) {
+    for (const instruction of transaction.instructions) {
+      for (const { pubkey, isWritable } of instruction.keys) {
+        if (isWritable) {
+          accounts.set(pubkey.toBase58(), pubkey);
+        }
+      }
+    }
+  }
+  return [...accounts.values()];
+};
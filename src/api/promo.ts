@@ -0,0 +1,44 @@
+import { PublicKey, TransactionInstruction } from '@solana/web3.js';
+import { Buffer } from 'buffer';
+import { PricedLaunch } from '@/api/pricing';
+import { ClusterId } from '@/lib/clusters';
+import { AppliedPromo, getPromoMemo } from '@/lib/promo-codes';
+
+export const MEMO_PROGRAM_ID = new PublicKey('MemoSq4gqABAXKb96qnH8TysNcWxMyWCqXgDLGmfcHr');
+
+/**
+ * Asks the promo API to validate a code for a launch. Rules, usage caps and
+ * the undiscounted fee the discount is worked out from are only known server-side.
+ */
+export const redeemPromoCode = async ({
+  code,
+  walletAddress,
+  cluster,
+  launch,
+}: {
+  code: string;
+  walletAddress: string;
+  cluster: ClusterId;
+  launch: PricedLaunch;
+}): Promise<AppliedPromo> => {
+  const { authorities, creatorName, tokenProgram, extensions } = launch;
+  const response = await fetch('/api/promo-codes', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ code, walletAddress, cluster, launch: { authorities, creatorName, tokenProgram, extensions } }),
+  });
+  const body = await response.json().catch(() => null);
+
+  if (!response.ok) {
+    throw new Error(body?.error ?? `Promo code check failed (${response.status})`);
+  }
+  return body as AppliedPromo;
+};
+
+// The memo on the fee transfer records on-chain which promo a launch used.
+export const createPromoMemoInstruction = (promo: AppliedPromo, signer: PublicKey) =>
+  new TransactionInstruction({
+    programId: MEMO_PROGRAM_ID,
+    keys: [{ pubkey: signer, isSigner: true, isWritable: false }],
+    data: Buffer.from(getPromoMemo(promo.code), 'utf8'),
+  });
@@ -0,0 +1,156 @@
+import {
+  Connection,
+  ParsedInstruction,
+  ParsedTransactionWithMeta,
+  PartiallyDecodedInstruction,
+  PublicKey,
+} from '@solana/web3.js';
+import { FEE_COLLECTOR_WALLET, formatLamports } from '@/api/pricing';
+import { formatTokenAmount, getFeeCurrencies } from '@/api/fee-payment';
+import { ClusterId } from '@/lib/clusters';
+
+/** A referrer's share of one launch's fee, in the currency the fee was paid in. */
+export interface ReferralEarning {
+  // Null when the fee was paid in SOL.
+  mint: string | null;
+  // Lamports, or base units of `mint`.
+  amount: bigint;
+  decimals: number;
+}
+
+export interface ReferredLaunch {
+  signature: string;
+  launcher: string;
+  mint: string | null;
+  earned: ReferralEarning;
+  blockTime: number | null;
+}
+
+interface FeeTransfer extends ReferralEarning {
+  from: string;
+  to: string;
+}
+
+const PARSED_TRANSACTION_BATCH_SIZE = 50;
+const TOKEN_PROGRAMS = ['spl-token', 'spl-token-2022'];
+
+const isParsed = (instruction: ParsedInstruction | PartiallyDecodedInstruction): instruction is ParsedInstruction =>
+  'parsed' in instruction;
+
+// Token transfers name token accounts; their owners and mints come from the
+// token balances the transaction recorded.
+const getTokenAccounts = (transaction: ParsedTransactionWithMeta) => {
+  const { accountKeys } = transaction.transaction.message;
+  return new Map(
+    [...(transaction.meta?.preTokenBalances ?? []), ...(transaction.meta?.postTokenBalances ?? [])]
+      .filter(({ owner }) => owner)
+      .map(({ accountIndex, owner, mint, uiTokenAmount }) => [
+        accountKeys[accountIndex].pubkey.toBase58(),
+        { owner, mint, decimals: uiTokenAmount.decimals },
+      ])
+  );
+};
+
+// SOL transfers, and SPL token transfers resolved to the wallets involved.
+const getFeeTransfers = (transaction: ParsedTransactionWithMeta, instructions: ParsedInstruction[]) => {
+  const tokenAccounts = getTokenAccounts(transaction);
+  return instructions.flatMap(({ program, parsed }): FeeTransfer[] => {
+    if (program === 'system' && parsed?.type === 'transfer') {
+      const { source, destination, lamports } = parsed.info;
+      return [{ from: source, to: destination, mint: null, amount: BigInt(lamports), decimals: 9 }];
+    }
+    if (TOKEN_PROGRAMS.includes(program) && (parsed?.type === 'transfer' || parsed?.type === 'transferChecked')) {
+      const { destination, authority, multisigAuthority, amount, tokenAmount } = parsed.info;
+      const account = tokenAccounts.get(destination);
+      return account
+        ? [{
+            from: authority ?? multisigAuthority,
+            to: account.owner,
+            mint: account.mint,
+            amount: BigInt(amount ?? tokenAmount.amount),
+            decimals: account.decimals,
+          }]
+        : [];
+    }
+    return [];
+  });
+};
+
+// A referred launch pays the fee collector and the referrer from the same
+// wallet, in the same currency, in one transaction. Token fees create the
+// referrer's token account idempotently, which puts the referrer's wallet in
+// the transaction's accounts. The supply stage usually shares that
+// transaction, which is where the mint comes from.
+const toReferredLaunch = (
+  referrer: string,
+  signature: string,
+  transaction: ParsedTransactionWithMeta | null
+): ReferredLaunch | null => {
+  if (!transaction || transaction.meta?.err) {
+    return null;
+  }
+
+  const instructions = transaction.transaction.message.instructions.filter(isParsed);
+  const transfers = getFeeTransfers(transaction, instructions);
+  const referralTransfer = transfers.find(({ to }) => to === referrer);
+  const feeTransfer = transfers.find(({ from, to, mint }) =>
+    to === FEE_COLLECTOR_WALLET && from === referralTransfer?.from && mint === referralTransfer?.mint
+  );
+  if (!referralTransfer || !feeTransfer) {
+    return null;
+  }
+
+  const mintTo = instructions.find(({ program, parsed }) => TOKEN_PROGRAMS.includes(program) && parsed?.type === 'mintTo');
+  const { mint, amount, decimals } = referralTransfer;
+
+  return {
+    signature,
+    launcher: referralTransfer.from,
+    mint: mintTo?.parsed.info.mint ?? null,
+    earned: { mint, amount, decimals },
+    blockTime: transaction.blockTime ?? null,
+  };
+};
+
+/** Totals earnings per currency, SOL first. */
+export const sumReferralEarnings = (launches: ReferredLaunch[]) => {
+  const totals = new Map<string | null, ReferralEarning>([[null, { mint: null, amount: 0n, decimals: 9 }]]);
+  for (const { earned } of launches) {
+    const total = totals.get(earned.mint);
+    totals.set(earned.mint, { ...earned, amount: (total?.amount ?? 0n) + earned.amount });
+  }
+  return [...totals.values()].filter(({ mint, amount }) => mint === null || amount > 0n);
+};
+
+/** Formats an earning in SOL or in the fee currency it was paid in. */
+export const formatReferralEarning = (cluster: ClusterId, { mint, amount, decimals }: ReferralEarning) => {
+  if (!mint) {
+    return formatLamports(Number(amount));
+  }
+  const symbol = getFeeCurrencies(cluster).find((currency) => currency.mint === mint)?.symbol;
+  return formatTokenAmount(amount, decimals, symbol ?? `${mint.slice(0, 4)}...`);
+};
+
+/**
+ * Finds launches referred by a wallet from its recent on-chain history. The
+ * fee split is the record: nothing about referrals is stored off-chain.
+ */
+export const fetchReferredLaunches = async (connection: Connection, referrer: PublicKey, limit = 200) => {
+  const signatures = (await connection.getSignaturesForAddress(referrer, { limit }))
+    .filter(({ err }) => !err)
+    .map(({ signature }) => signature);
+
+  const launches: ReferredLaunch[] = [];
+  for (let start = 0; start < signatures.length; start += PARSED_TRANSACTION_BATCH_SIZE) {
+    const batch = signatures.slice(start, start + PARSED_TRANSACTION_BATCH_SIZE);
+    const transactions = await connection.getParsedTransactions(batch, { maxSupportedTransactionVersion: 0 });
+    transactions.forEach((transaction, index) => {
+      const launch = toReferredLaunch(referrer.toBase58(), batch[index], transaction);
+      if (launch) {
+        launches.push(launch);
+      }
+    });
+  }
+
+  return launches;
+};
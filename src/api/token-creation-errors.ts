@@ -0,0 +1,151 @@
+import { TransactionExpiredBlockheightExceededError } from '@solana/web3.js';
+import { QuoteLine } from '@/api/pricing';
+import { LaunchStage } from '@/lib/launch-checkpoint';
+
+// Stable codes the UI keys recovery actions on. Messages may change, codes don't.
+export type TokenCreationErrorCode =
+  | 'USER_REJECTED'
+  | 'WALLET_ERROR'
+  | 'INSUFFICIENT_BALANCE'
+  | 'BLOCKHASH_EXPIRED'
+  | 'RPC_UNAVAILABLE'
+  | 'SIMULATION_FAILED'
+  | 'TRANSACTION_FAILED'
+  | 'LAUNCH_PENDING'
+  | 'INVALID_LAUNCH'
+  | 'INVALID_INPUT'
+  | 'QUOTE_EXPIRED'
+  | 'PARTIAL_LAUNCH'
+  | 'UPLOAD_FAILED'
+  | 'UNKNOWN';
+
+export class TokenCreationError extends Error {
+  readonly code: TokenCreationErrorCode;
+  readonly cause?: unknown;
+
+  constructor(code: TokenCreationErrorCode, message: string, cause?: unknown) {
+    super(message);
+    this.name = 'TokenCreationError';
+    this.code = code;
+    this.cause = cause;
+  }
+}
+
+/** The wallet declined to sign. */
+export class UserRejectedError extends TokenCreationError {
+  constructor(cause?: unknown) {
+    super('USER_REJECTED', 'The transaction was rejected in your wallet', cause);
+    this.name = 'UserRejectedError';
+  }
+}
+
+export interface BalanceShortfall {
+  currency: string;
+  required: string;
+  available: string;
+  lines: QuoteLine[];
+}
+
+/** The wallet can't cover the launch. `lines` itemizes what it has to pay for. */
+export class InsufficientBalanceError extends TokenCreationError {
+  readonly shortfall: BalanceShortfall;
+
+  constructor(shortfall: BalanceShortfall) {
+    super(
+      'INSUFFICIENT_BALANCE',
+      `Insufficient ${shortfall.currency} balance. Required ${shortfall.required}, wallet has ${shortfall.available}`
+    );
+    this.name = 'InsufficientBalanceError';
+    this.shortfall = shortfall;
+  }
+}
+
+/** The transactions weren't confirmed before their blockhash expired. */
+export class BlockhashExpiredError extends TokenCreationError {
+  constructor(cause?: unknown) {
+    super('BLOCKHASH_EXPIRED', 'The network did not confirm the launch in time', cause);
+    this.name = 'BlockhashExpiredError';
+  }
+}
+
+/** The RPC endpoint couldn't be reached or refused the request. */
+export class RpcUnavailableError extends TokenCreationError {
+  constructor(message = 'Failed to connect to Solana network', cause?: unknown) {
+    super('RPC_UNAVAILABLE', message, cause);
+    this.name = 'RpcUnavailableError';
+  }
+}
+
+/** A transaction failed simulation, so it was never sent. `stages` names what it would have done. */
+export class SimulationFailedError extends TokenCreationError {
+  readonly reason: string;
+  readonly stages: string[];
+  readonly logs: string[];
+
+  constructor(reason: string, stages: string[], logs: string[]) {
+    super('SIMULATION_FAILED', `Stopped before sending (${stages.join(' + ')}): ${reason}`);
+    this.name = 'SimulationFailedError';
+    this.reason = reason;
+    this.stages = stages;
+    this.logs = logs;
+  }
+}
+
+/**
+ * Some stages landed before the launch failed, so the mint exists but is
+ * unfinished. The launch is checkpointed, so it can be resumed from where it
+ * stopped; `remainingStages` are the ones still to land.
+ */
+export class PartialLaunchError extends TokenCreationError {
+  readonly mintAddress: string;
+  readonly completedStages: LaunchStage[];
+  readonly remainingStages: LaunchStage[];
+  readonly signatures: string[];
+
+  constructor(
+    { mintAddress, completedStages, remainingStages, signatures }: {
+      mintAddress: string;
+      completedStages: LaunchStage[];
+      remainingStages: LaunchStage[];
+      signatures: string[];
+    },
+    cause: TokenCreationError
+  ) {
+    super('PARTIAL_LAUNCH', `The launch stopped partway: ${cause.message}`, cause);
+    this.name = 'PartialLaunchError';
+    this.mintAddress = mintAddress;
+    this.completedStages = completedStages;
+    this.remainingStages = remainingStages;
+    this.signatures = signatures;
+  }
+}
+
+const isUserRejection = (error: Error & { error?: { code?: number } }) =>
+  error.error?.code === 4001 || /reject|denied|declined|cancel/i.test(error.message);
+
+/**
+ * Maps anything a launch can throw to a TokenCreationError. Wallet adapter
+ * errors are recognised by name, since each adapter bundles its own copy of
+ * the error classes.
+ */
+export const toTokenCreationError = (error: unknown): TokenCreationError => {
+  if (error instanceof TokenCreationError) {
+    return error;
+  }
+  if (!(error instanceof Error)) {
+    return new TokenCreationError('UNKNOWN', 'Failed to create token', error);
+  }
+
+  if (error.name.startsWith('Wallet')) {
+    return isUserRejection(error)
+      ? new UserRejectedError(error)
+      : new TokenCreationError('WALLET_ERROR', error.message || 'The wallet failed to sign the launch', error);
+  }
+  if (error instanceof TransactionExpiredBlockheightExceededError || /block ?height exceeded|blockhash not found/i.test(error.message)) {
+    return new BlockhashExpiredError(error);
+  }
+  if (/failed to fetch|network ?error|429|503|timed? ?out|ECONNREFUSED/i.test(error.message)) {
+    return new RpcUnavailableError(`The network request failed: ${error.message}`, error);
+  }
+  return new TokenCreationError('UNKNOWN', error.message, error);
+};
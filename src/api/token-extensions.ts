@@ -0,0 +1,210 @@
+import { PublicKey, TransactionInstruction } from '@solana/web3.js';
+import {
+  AccountState,
+  ExtensionType,
+  TOKEN_2022_PROGRAM_ID,
+  TOKEN_PROGRAM_ID,
+  createInitializeDefaultAccountStateInstruction,
+  createInitializeInterestBearingMintInstruction,
+  createInitializeMintCloseAuthorityInstruction,
+  createInitializeNonTransferableMintInstruction,
+  createInitializePermanentDelegateInstruction,
+  createInitializeTransferFeeConfigInstruction,
+  getAccountLen,
+  getAccountTypeOfMintType,
+  getMintLen,
+} from '@solana/spl-token';
+import { parseSupplyToBaseUnits } from '@/lib/supply';
+
+export type TokenProgramChoice = 'token' | 'token-2022';
+
+export const TOKEN_PROGRAM_LABELS: Record<TokenProgramChoice, string> = {
+  token: 'SPL Token',
+  'token-2022': 'Token-2022',
+};
+
+export interface TokenExtensionSettings {
+  transferFee: { enabled: boolean; feeBasisPoints: number; maxFee: string };
+  interestBearing: { enabled: boolean; rateBasisPoints: number };
+  nonTransferable: { enabled: boolean };
+  permanentDelegate: { enabled: boolean; delegate: string };
+  defaultAccountState: { enabled: boolean; state: 'initialized' | 'frozen' };
+  mintCloseAuthority: { enabled: boolean; closeAuthority: string };
+}
+
+export type TokenExtensionKey = keyof TokenExtensionSettings;
+
+export const TOKEN_EXTENSION_KEYS: TokenExtensionKey[] = [
+  'transferFee',
+  'interestBearing',
+  'nonTransferable',
+  'permanentDelegate',
+  'defaultAccountState',
+  'mintCloseAuthority',
+];
+
+export const TOKEN_EXTENSION_LABELS: Record<TokenExtensionKey, string> = {
+  transferFee: 'Transfer Fee',
+  interestBearing: 'Interest-Bearing',
+  nonTransferable: 'Non-Transferable',
+  permanentDelegate: 'Permanent Delegate',
+  defaultAccountState: 'Default Account State',
+  mintCloseAuthority: 'Mint Close Authority',
+};
+
+export const DEFAULT_EXTENSION_SETTINGS: TokenExtensionSettings = {
+  transferFee: { enabled: false, feeBasisPoints: 100, maxFee: '' },
+  interestBearing: { enabled: false, rateBasisPoints: 500 },
+  nonTransferable: { enabled: false },
+  permanentDelegate: { enabled: false, delegate: '' },
+  defaultAccountState: { enabled: false, state: 'frozen' },
+  mintCloseAuthority: { enabled: false, closeAuthority: '' },
+};
+
+const EXTENSION_TYPES: Record<TokenExtensionKey, ExtensionType> = {
+  transferFee: ExtensionType.TransferFeeConfig,
+  interestBearing: ExtensionType.InterestBearingConfig,
+  nonTransferable: ExtensionType.NonTransferable,
+  permanentDelegate: ExtensionType.PermanentDelegate,
+  defaultAccountState: ExtensionType.DefaultAccountState,
+  mintCloseAuthority: ExtensionType.MintCloseAuthority,
+};
+
+export const getTokenProgramId = (tokenProgram: TokenProgramChoice = 'token') =>
+  tokenProgram === 'token-2022' ? TOKEN_2022_PROGRAM_ID : TOKEN_PROGRAM_ID;
+
+export const getEnabledExtensions = (tokenProgram: TokenProgramChoice = 'token', settings?: TokenExtensionSettings) =>
+  tokenProgram === 'token-2022' && settings
+    ? TOKEN_EXTENSION_KEYS.filter((key) => settings[key].enabled)
+    : [];
+
+export const getExtensionTypes = (keys: TokenExtensionKey[]) => keys.map((key) => EXTENSION_TYPES[key]);
+
+export const getMintSpace = (keys: TokenExtensionKey[], withMetadataPointer = false) =>
+  getMintLen([
+    ...getExtensionTypes(keys),
+    ...(withMetadataPointer ? [ExtensionType.MetadataPointer] : []),
+  ]);
+
+// Associated token accounts on Token-2022 always carry ImmutableOwner, plus the
+// account-side counterpart of each mint extension.
+export const getTokenAccountSpace = (tokenProgram: TokenProgramChoice = 'token', keys: TokenExtensionKey[] = []) =>
+  tokenProgram === 'token-2022'
+    ? getAccountLen([
+        ExtensionType.ImmutableOwner,
+        ...getExtensionTypes(keys)
+          .map(getAccountTypeOfMintType)
+          .filter((type) => type !== ExtensionType.Uninitialized),
+      ])
+    : getAccountLen([]);
+
+const isValidAddress = (address: string) => {
+  try {
+    new PublicKey(address);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+export const validateExtensionSettings = ({
+  tokenProgram,
+  extensions,
+  decimals,
+  freezeAuthority,
+}: {
+  tokenProgram?: TokenProgramChoice;
+  extensions?: TokenExtensionSettings;
+  decimals: number;
+  freezeAuthority: boolean;
+}) => {
+  const enabled = getEnabledExtensions(tokenProgram, extensions);
+  const errors: string[] = [];
+
+  if (enabled.includes('transferFee')) {
+    const { feeBasisPoints, maxFee } = extensions.transferFee;
+    if (!Number.isInteger(feeBasisPoints) || feeBasisPoints < 0 || feeBasisPoints > 10000) {
+      errors.push('Transfer fee must be between 0 and 10000 basis points');
+    }
+    try {
+      parseSupplyToBaseUnits(maxFee, decimals, 'Maximum transfer fee');
+    } catch (error) {
+      errors.push(error instanceof Error ? error.message : 'Invalid maximum transfer fee');
+    }
+  }
+  if (enabled.includes('interestBearing')) {
+    const { rateBasisPoints } = extensions.interestBearing;
+    if (!Number.isInteger(rateBasisPoints) || rateBasisPoints < -32768 || rateBasisPoints > 32767) {
+      errors.push('Interest rate must be a whole number of basis points between -32768 and 32767');
+    }
+  }
+  if (enabled.includes('permanentDelegate') && !isValidAddress(extensions.permanentDelegate.delegate)) {
+    errors.push('Permanent delegate must be a valid Solana address');
+  }
+  if (enabled.includes('mintCloseAuthority') && !isValidAddress(extensions.mintCloseAuthority.closeAuthority)) {
+    errors.push('Mint close authority must be a valid Solana address');
+  }
+  if (enabled.includes('defaultAccountState') && extensions.defaultAccountState.state === 'frozen' && !freezeAuthority) {
+    errors.push('A frozen default account state needs the freeze authority to be retained');
+  }
+  if (enabled.includes('nonTransferable') && enabled.includes('transferFee')) {
+    errors.push('Non-transferable tokens cannot charge a transfer fee');
+  }
+
+  return errors;
+};
+
+/**
+ * Builds the extension initializers, which must run after the mint account is
+ * created and before InitializeMint2.
+ */
+export const createExtensionInstructions = (
+  mint: PublicKey,
+  authority: PublicKey,
+  keys: TokenExtensionKey[],
+  settings: TokenExtensionSettings,
+  decimals: number
+) => {
+  const programId = TOKEN_2022_PROGRAM_ID;
+
+  return keys.map((key): TransactionInstruction => {
+    switch (key) {
+      case 'transferFee':
+        return createInitializeTransferFeeConfigInstruction(
+          mint,
+          authority,
+          authority,
+          settings.transferFee.feeBasisPoints,
+          parseSupplyToBaseUnits(settings.transferFee.maxFee, decimals, 'Maximum transfer fee'),
+          programId
+        );
+      case 'interestBearing':
+        return createInitializeInterestBearingMintInstruction(
+          mint,
+          authority,
+          settings.interestBearing.rateBasisPoints,
+          programId
+        );
+      case 'nonTransferable':
+        return createInitializeNonTransferableMintInstruction(mint, programId);
+      case 'permanentDelegate':
+        return createInitializePermanentDelegateInstruction(
+          mint,
+          new PublicKey(settings.permanentDelegate.delegate),
+          programId
+        );
+      case 'defaultAccountState':
+        return createInitializeDefaultAccountStateInstruction(
+          mint,
+          settings.defaultAccountState.state === 'frozen' ? AccountState.Frozen : AccountState.Initialized,
+          programId
+        );
+      case 'mintCloseAuthority':
+        return createInitializeMintCloseAuthorityInstruction(
+          mint,
+          new PublicKey(settings.mintCloseAuthority.closeAuthority),
+          programId
+        );
+    }
+  });
+};
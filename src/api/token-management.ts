@@ -0,0 +1,231 @@
+import {
+  Connection,
+  PublicKey,
+  Transaction,
+  TransactionInstruction,
+} from '@solana/web3.js';
+import {
+  AuthorityType,
+  createAssociatedTokenAccountIdempotentInstruction,
+  createBurnCheckedInstruction,
+  createFreezeAccountInstruction,
+  createMintToCheckedInstruction,
+  createSetAuthorityInstruction,
+  createThawAccountInstruction,
+  getAssociatedTokenAddressSync,
+  unpackAccount,
+} from '@solana/spl-token';
+import bs58 from 'bs58';
+import { OwnedToken } from '@/api/my-tokens';
+import { getTokenProgramId } from '@/api/token-extensions';
+import { simulateLaunchTransaction } from '@/api/launch-simulation';
+import { LaunchProgressListener } from '@/api/launch-progress';
+import {
+  PrioritySpeed,
+  createComputeBudgetInstructions,
+  estimateComputeUnits,
+  getPriorityFeeMicroLamports,
+  getWritableAccounts,
+  setComputeBudget,
+} from '@/api/priority-fees';
+import { TokenCreationError, toTokenCreationError } from '@/api/token-creation-errors';
+import { parseSupplyToBaseUnits } from '@/lib/supply';
+
+export type TokenAction =
+  | 'mint'
+  | 'burn'
+  | 'freeze'
+  | 'thaw'
+  | 'transfer-authority'
+  | 'revoke-authority'
+  | 'update-metadata';
+
+export const TOKEN_ACTION_LABELS: Record<TokenAction, string> = {
+  mint: 'Mint Supply',
+  burn: 'Burn Tokens',
+  freeze: 'Freeze Account',
+  thaw: 'Thaw Account',
+  'transfer-authority': 'Transfer Authority',
+  'revoke-authority': 'Revoke Authority',
+  'update-metadata': 'Update Metadata',
+};
+
+// Authorities set on the mint itself. The metadata update authority is managed separately.
+export type MintAuthorityKind = 'mint' | 'freeze';
+
+const AUTHORITY_TYPES: Record<MintAuthorityKind, AuthorityType> = {
+  mint: AuthorityType.MintTokens,
+  freeze: AuthorityType.FreezeAccount,
+};
+
+const parseAddress = (value: string, label: string) => {
+  try {
+    return new PublicKey(value.trim());
+  } catch {
+    throw new TokenCreationError('INVALID_INPUT', `${label} is not a valid address`);
+  }
+};
+
+const parseAmount = (amount: string, decimals: number) => {
+  try {
+    const baseUnits = parseSupplyToBaseUnits(amount, decimals, 'Amount');
+    if (baseUnits === 0n) {
+      throw new Error('Amount must be greater than zero');
+    }
+    return baseUnits;
+  } catch (error) {
+    throw new TokenCreationError('INVALID_INPUT', error instanceof Error ? error.message : 'Invalid amount');
+  }
+};
+
+/** The wallet's own token account for the mint, and what it holds. */
+export const fetchOwnTokenBalance = async (connection: Connection, token: OwnedToken, owner: PublicKey) => {
+  const programId = getTokenProgramId(token.tokenProgram);
+  const address = getAssociatedTokenAddressSync(new PublicKey(token.mintAddress), owner, true, programId);
+  const account = await connection.getAccountInfo(address);
+  const { amount, isFrozen } = account
+    ? unpackAccount(address, account, programId)
+    : { amount: 0n, isFrozen: false };
+  return { address, amount, isFrozen };
+};
+
+// Accepts a token account of the mint, or a wallet whose associated account is meant.
+const resolveHolderTokenAccount = async (connection: Connection, token: OwnedToken, holder: string) => {
+  const programId = getTokenProgramId(token.tokenProgram);
+  const address = parseAddress(holder, 'Holder');
+  const account = await connection.getAccountInfo(address);
+  if (account?.owner.equals(programId)) {
+    const tokenAccount = unpackAccount(address, account, programId);
+    if (tokenAccount.mint.toBase58() !== token.mintAddress) {
+      throw new TokenCreationError('INVALID_INPUT', 'That token account belongs to a different mint');
+    }
+    return address;
+  }
+  return getAssociatedTokenAddressSync(new PublicKey(token.mintAddress), address, true, programId);
+};
+
+export const createMintSupplyInstructions = (
+  token: OwnedToken,
+  authority: PublicKey,
+  { amount, recipient }: { amount: string; recipient?: string }
+) => {
+  const mint = new PublicKey(token.mintAddress);
+  const programId = getTokenProgramId(token.tokenProgram);
+  const owner = recipient?.trim() ? parseAddress(recipient, 'Recipient') : authority;
+  const destination = getAssociatedTokenAddressSync(mint, owner, true, programId);
+  return [
+    createAssociatedTokenAccountIdempotentInstruction(authority, destination, owner, mint, programId),
+    createMintToCheckedInstruction(
+      mint,
+      destination,
+      authority,
+      parseAmount(amount, token.decimals),
+      token.decimals,
+      [],
+      programId
+    ),
+  ];
+};
+
+export const createBurnInstructions = (token: OwnedToken, owner: PublicKey, amount: string) => {
+  const mint = new PublicKey(token.mintAddress);
+  const programId = getTokenProgramId(token.tokenProgram);
+  const source = getAssociatedTokenAddressSync(mint, owner, true, programId);
+  return [
+    createBurnCheckedInstruction(source, mint, owner, parseAmount(amount, token.decimals), token.decimals, [], programId),
+  ];
+};
+
+export const createFreezeInstructions = async (
+  connection: Connection,
+  token: OwnedToken,
+  authority: PublicKey,
+  { holder, freeze }: { holder: string; freeze: boolean }
+) => {
+  const mint = new PublicKey(token.mintAddress);
+  const programId = getTokenProgramId(token.tokenProgram);
+  const account = await resolveHolderTokenAccount(connection, token, holder);
+  return [
+    freeze
+      ? createFreezeAccountInstruction(account, mint, authority, [], programId)
+      : createThawAccountInstruction(account, mint, authority, [], programId),
+  ];
+};
+
+/** Hands a mint authority to `newAuthority`, or revokes it for good when that is null. */
+export const createSetMintAuthorityInstructions = (
+  token: OwnedToken,
+  currentAuthority: PublicKey,
+  { authority, newAuthority }: { authority: MintAuthorityKind; newAuthority: string | null }
+) => [
+  createSetAuthorityInstruction(
+    new PublicKey(token.mintAddress),
+    currentAuthority,
+    AUTHORITY_TYPES[authority],
+    newAuthority === null ? null : parseAddress(newAuthority, 'New authority'),
+    [],
+    getTokenProgramId(token.tokenProgram)
+  ),
+];
+
+/**
+ * Sends one management transaction the way a launch sends its transactions:
+ * priced and budgeted, simulated before the wallet is asked to sign, and
+ * confirmed, with progress reported under `action`. Throws a TokenCreationError.
+ */
+export const executeTokenAction = async ({
+  connection,
+  walletAddress,
+  signTransaction,
+  action,
+  buildInstructions,
+  prioritySpeed = 'normal',
+  onProgress,
+}: {
+  connection: Connection;
+  walletAddress: string;
+  signTransaction: <T extends Transaction>(transaction: T) => Promise<T>;
+  action: TokenAction;
+  buildInstructions: () => TransactionInstruction[] | Promise<TransactionInstruction[]>;
+  prioritySpeed?: PrioritySpeed;
+  onProgress?: LaunchProgressListener<TokenAction>;
+}) => {
+  const emit = onProgress ?? (() => {});
+  const stages = [action];
+  let signature: string | undefined;
+
+  try {
+    const instructions = await buildInstructions();
+    const latestBlockhash = await connection.getLatestBlockhash('finalized');
+    const transaction = new Transaction({
+      feePayer: new PublicKey(walletAddress),
+      ...latestBlockhash,
+    }).add(...createComputeBudgetInstructions(), ...instructions);
+
+    const microLamports = await getPriorityFeeMicroLamports(connection, getWritableAccounts([transaction]), prioritySpeed);
+    setComputeBudget(transaction, await estimateComputeUnits(connection, transaction), microLamports);
+    await simulateLaunchTransaction(connection, transaction, stages);
+
+    emit({ type: 'awaiting-signature', stages, simulated: true, at: Date.now() });
+    const signedTransaction = await signTransaction(transaction);
+    signature = bs58.encode(signedTransaction.signature!);
+
+    await connection.sendRawTransaction(signedTransaction.serialize());
+    emit({ type: 'sent', stages, signature, at: Date.now() });
+    const confirmation = await connection.confirmTransaction({ signature, ...latestBlockhash });
+    if (confirmation.value.err) {
+      throw new TokenCreationError(
+        'TRANSACTION_FAILED',
+        `${TOKEN_ACTION_LABELS[action]} failed: ${JSON.stringify(confirmation.value.err)}`
+      );
+    }
+
+    emit({ type: 'confirmed', stages, signature, at: Date.now() });
+    return signature;
+  } catch (error) {
+    console.error(`Error in ${action}:`, error instanceof Error ? error.message : 'Unknown error');
+    const actionError = toTokenCreationError(error);
+    emit({ type: 'failed', stages, signature, error: actionError, at: Date.now() });
+    throw actionError;
+  }
+};
@@ -0,0 +1,309 @@
+import { Connection, PublicKey, TransactionInstruction, SystemProgram } from '@solana/web3.js';
+import {
+  UseMethod,
+  getCreateMetadataAccountV3InstructionDataSerializer,
+  getUpdateMetadataAccountV2InstructionDataSerializer,
+} from '@metaplex-foundation/mpl-token-metadata';
+import { publicKey } from '@metaplex-foundation/umi';
+import { Buffer } from 'buffer';
+import { MetaplexMetadata, decodeMetadataAccount } from '@/api/metaplex-metadata';
+
+export const TOKEN_METADATA_PROGRAM_ID = new PublicKey('metaqbxxUerdq28cj1RbAWkYQm3ybzjb6a8bt518x1s');
+
+// Byte limits enforced by the token metadata program.
+export const MAX_NAME_LENGTH = 32;
+export const MAX_SYMBOL_LENGTH = 10;
+export const MAX_URI_LENGTH = 200;
+
+export const METADATA_ACCOUNT_SPACE = 679;
+
+export interface MetadataFieldErrors {
+  name?: string;
+  symbol?: string;
+  uri?: string;
+}
+
+const byteLength = (value: string) => new TextEncoder().encode(value).length;
+
+export const validateMetadataFields = ({ name, symbol, uri }: { name: string; symbol: string; uri?: string }) => {
+  const errors: MetadataFieldErrors = {};
+
+  if (!name.trim()) {
+    errors.name = 'Token name is required';
+  } else if (byteLength(name) > MAX_NAME_LENGTH) {
+    errors.name = `Token name must be at most ${MAX_NAME_LENGTH} bytes (currently ${byteLength(name)})`;
+  }
+
+  if (!symbol.trim()) {
+    errors.symbol = 'Token symbol is required';
+  } else if (byteLength(symbol) > MAX_SYMBOL_LENGTH) {
+    errors.symbol = `Token symbol must be at most ${MAX_SYMBOL_LENGTH} bytes (currently ${byteLength(symbol)})`;
+  }
+
+  if (uri !== undefined && byteLength(uri) > MAX_URI_LENGTH) {
+    errors.uri = `Metadata URI must be at most ${MAX_URI_LENGTH} bytes (currently ${byteLength(uri)})`;
+  }
+
+  return errors;
+};
+
+export const hasMetadataFieldErrors = (errors: MetadataFieldErrors) => Object.keys(errors).length > 0;
+
+export interface MetadataFile {
+  uri: string;
+  type: string;
+}
+
+/** Off-chain JSON fields besides name and symbol, in the Metaplex fungible token standard. */
+export interface OffChainMetadataFields {
+  description?: string;
+  image?: string;
+  // An animated logo, shown by wallets that support it. `image` is its static fallback.
+  animationUrl?: string;
+  banner?: string;
+  // MIME types of the assets above, where known. Others are guessed from the extension.
+  files?: MetadataFile[];
+  website?: string;
+  twitter?: string;
+  telegram?: string;
+  discord?: string;
+  creatorName?: string;
+  creatorWebsite?: string;
+}
+
+const SOCIAL_FIELDS = ['website', 'twitter', 'telegram', 'discord'] as const;
+
+const MEDIA_TYPES: Record<string, string> = {
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  svg: 'image/svg+xml',
+  mp4: 'video/mp4',
+};
+
+// For assets linked by URL, whose type is only known from the extension.
+const guessMediaType = (uri: string) =>
+  MEDIA_TYPES[uri.split(/[?#]/)[0].split('.').pop()?.toLowerCase() ?? ''] ?? 'image/png';
+
+export const buildOffChainMetadata = (name: string, symbol: string, fields: OffChainMetadataFields) => {
+  const extensions: Record<string, string> = Object.fromEntries(
+    SOCIAL_FIELDS.filter((field) => fields[field]?.trim()).map((field) => [field, fields[field]!.trim()])
+  );
+  const image = fields.image?.trim();
+  const animationUrl = fields.animationUrl?.trim();
+  const banner = fields.banner?.trim();
+  const creatorName = fields.creatorName?.trim();
+  const creatorWebsite = fields.creatorWebsite?.trim();
+  const knownTypes = new Map(fields.files?.map(({ uri, type }) => [uri, type]));
+  const files = [image, animationUrl, banner]
+    .filter((uri): uri is string => !!uri)
+    .map((uri) => ({ uri, type: knownTypes.get(uri) ?? guessMediaType(uri) }));
+  if (banner) {
+    extensions.banner = banner;
+  }
+  const isVideo = files.some(({ uri, type }) => uri === animationUrl && type.startsWith('video/'));
+  return {
+    name,
+    symbol,
+    description: fields.description?.trim() || `${name} token`,
+    ...(image ? { image } : {}),
+    ...(animationUrl ? { animation_url: animationUrl } : {}),
+    ...(Object.keys(extensions).length > 0 ? { extensions } : {}),
+    ...(creatorName ? { creator: { name: creatorName, ...(creatorWebsite ? { site: creatorWebsite } : {}) } } : {}),
+    ...(files.length > 0 ? { properties: { files, category: isVideo ? 'video' : 'image' } } : {}),
+  };
+};
+
+// A host that doesn't answer in time is treated like one with nothing readable.
+const OFF_CHAIN_METADATA_TIMEOUT_MS = 10_000;
+
+/**
+ * Reads the off-chain JSON a metadata URI points to. Tokens launched here
+ * before metadata was hosted carry the JSON inline in the URI instead of a
+ * link. Returns null when there is nothing readable.
+ */
+export const readOffChainMetadata = async (uri: string): Promise<Record<string, unknown> | null> => {
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), OFF_CHAIN_METADATA_TIMEOUT_MS);
+  try {
+    const json = /^https?:\/\//.test(uri)
+      ? await (await fetch(uri, { signal: controller.signal })).json()
+      : JSON.parse(uri);
+    return typeof json === 'object' && json !== null ? json : null;
+  } catch {
+    return null;
+  } finally {
+    clearTimeout(timeout);
+  }
+};
+
+/** Pulls the editable fields back out of off-chain JSON built by `buildOffChainMetadata` or elsewhere. */
+export const toOffChainMetadataFields = (json: Record<string, unknown> | null): OffChainMetadataFields => {
+  const text = (value: unknown) => (typeof value === 'string' ? value : undefined);
+  const extensions = (json?.extensions ?? {}) as Record<string, unknown>;
+  const creator = (json?.creator ?? {}) as Record<string, unknown>;
+  const files = (json?.properties as { files?: unknown } | undefined)?.files;
+  return {
+    description: text(json?.description),
+    image: text(json?.image),
+    animationUrl: text(json?.animation_url),
+    banner: text(extensions.banner),
+    files: Array.isArray(files)
+      ? files.filter((file): file is MetadataFile => typeof file?.uri === 'string' && typeof file?.type === 'string')
+      : undefined,
+    ...Object.fromEntries(SOCIAL_FIELDS.map((field) => [field, text(extensions[field])])),
+    creatorName: text(creator.name),
+    creatorWebsite: text(creator.site),
+  };
+};
+
+export const getMetadataPDA = (mint: PublicKey): PublicKey => {
+  const [publicKey] = PublicKey.findProgramAddressSync(
+    [
+      Buffer.from('metadata'),
+      TOKEN_METADATA_PROGRAM_ID.toBuffer(),
+      mint.toBuffer(),
+    ],
+    TOKEN_METADATA_PROGRAM_ID
+  );
+  return publicKey;
+};
+
+export const fetchMetadata = async (connection: Connection, metadataPDA: PublicKey) => {
+  try {
+    const accountInfo = await connection.getAccountInfo(metadataPDA);
+    if (!accountInfo) {
+      throw new Error('Metadata account not found');
+    }
+    return accountInfo;
+  } catch (error) {
+    console.error('Error fetching metadata:', error);
+    throw error;
+  }
+};
+
+export const createMetadataInstruction = ({
+  metadata,
+  mint,
+  mintAuthority,
+  payer,
+  updateAuthority,
+  name,
+  symbol,
+  uri,
+  creatorAddress,
+  isMutable = true,
+}: {
+  metadata: PublicKey;
+  mint: PublicKey;
+  mintAuthority: PublicKey;
+  payer: PublicKey;
+  updateAuthority: PublicKey;
+  name: string;
+  symbol: string;
+  uri: string;
+  creatorAddress?: string;
+  isMutable?: boolean;
+}) => {
+  const errors = validateMetadataFields({ name, symbol, uri });
+  if (hasMetadataFieldErrors(errors)) {
+    throw new Error(Object.values(errors).join('\n'));
+  }
+
+  const data = getCreateMetadataAccountV3InstructionDataSerializer().serialize({
+    data: {
+      name,
+      symbol,
+      uri,
+      sellerFeeBasisPoints: 0,
+      // A creator can only be marked verified when it signs as update authority.
+      creators: creatorAddress ? [{
+        address: publicKey(creatorAddress),
+        verified: creatorAddress === updateAuthority.toBase58(),
+        share: 100
+      }] : null,
+      collection: null,
+      uses: null,
+    },
+    isMutable,
+    collectionDetails: null,
+  });
+
+  return new TransactionInstruction({
+    keys: [
+      { pubkey: metadata, isSigner: false, isWritable: true },
+      { pubkey: mint, isSigner: false, isWritable: false },
+      { pubkey: mintAuthority, isSigner: true, isWritable: false },
+      { pubkey: payer, isSigner: true, isWritable: true },
+      { pubkey: updateAuthority, isSigner: true, isWritable: false },
+      { pubkey: SystemProgram.programId, isSigner: false, isWritable: false },
+    ],
+    programId: TOKEN_METADATA_PROGRAM_ID,
+    data: Buffer.from(data),
+  });
+};
+
+/** The metadata account as currently on-chain, with its off-chain JSON when readable. */
+export const fetchEditableMetadata = async (connection: Connection, mint: PublicKey) => {
+  const address = getMetadataPDA(mint);
+  const metadata = decodeMetadataAccount((await fetchMetadata(connection, address)).data);
+  return {
+    source: 'metaplex' as const,
+    address,
+    metadata,
+    offChain: toOffChainMetadataFields(await readOffChainMetadata(metadata.uri)),
+  };
+};
+
+/**
+ * Rewrites name, symbol and URI with UpdateMetadataAccountV2. Royalties,
+ * creators, collection and uses are carried over unchanged. `makeImmutable`
+ * is permanent: nobody can update the metadata afterwards.
+ */
+export const createUpdateMetadataInstruction = ({
+  metadataAddress,
+  current,
+  updateAuthority,
+  name,
+  symbol,
+  uri,
+  makeImmutable = false,
+}: {
+  metadataAddress: PublicKey;
+  current: MetaplexMetadata;
+  updateAuthority: PublicKey;
+  name: string;
+  symbol: string;
+  uri: string;
+  makeImmutable?: boolean;
+}) => {
+  const errors = validateMetadataFields({ name, symbol, uri });
+  if (hasMetadataFieldErrors(errors)) {
+    throw new Error(Object.values(errors).join('\n'));
+  }
+
+  const data = getUpdateMetadataAccountV2InstructionDataSerializer().serialize({
+    data: {
+      name,
+      symbol,
+      uri,
+      sellerFeeBasisPoints: current.sellerFeeBasisPoints,
+      creators: current.creators?.map((creator) => ({ ...creator, address: publicKey(creator.address) })) ?? null,
+      collection: current.collection ? { ...current.collection, key: publicKey(current.collection.key) } : null,
+      uses: current.uses ? { ...current.uses, useMethod: current.uses.useMethod as UseMethod } : null,
+    },
+    newUpdateAuthority: null,
+    primarySaleHappened: null,
+    isMutable: makeImmutable ? false : null,
+  });
+
+  return new TransactionInstruction({
+    keys: [
+      { pubkey: metadataAddress, isSigner: false, isWritable: true },
+      { pubkey: updateAuthority, isSigner: true, isWritable: false },
+    ],
+    programId: TOKEN_METADATA_PROGRAM_ID,
+    data: Buffer.from(data),
+  });
+};
@@ -0,0 +1,48 @@
+import { ReactNode, useState } from 'react';
+
+interface AssetDropzoneProps {
+  // Id of the hidden file input, so children can open it with a click.
+  inputId: string;
+  accept: string[];
+  onFile: (file: File) => void;
+  children: ReactNode;
+}
+
+const AssetDropzone = ({ inputId, accept, onFile, children }: AssetDropzoneProps) => {
+  const [isDragging, setIsDragging] = useState(false);
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    setIsDragging(false);
+    const file = e.dataTransfer.files[0];
+    if (file) {
+      onFile(file);
+    }
+  };
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Allows picking the same file again after cancelling.
+    e.target.value = '';
+    if (file) {
+      onFile(file);
+    }
+  };
+
+  return (
+    <div
+      className={`mt-2 border-2 border-dashed rounded-lg p-6 text-center transition-colors ${isDragging ? 'border-emerald-400 bg-emerald-400/5' : 'border-gray-700'}`}
+      onDragOver={(e) => {
+        e.preventDefault();
+        setIsDragging(true);
+      }}
+      onDragLeave={() => setIsDragging(false)}
+      onDrop={handleDrop}
+    >
+      {children}
+      <input id={inputId} type="file" accept={accept.join(',')} onChange={handleChange} className="hidden" />
+    </div>
+  );
+};
+
+export default AssetDropzone;
@@ -0,0 +1,27 @@
+import { ReactNode, useCallback, useMemo, useState } from 'react';
+import { ClusterContext } from '@/hooks/use-cluster';
+import {
+  ClusterSettings,
+  getClusterEndpoint,
+  loadClusterSettings,
+  saveClusterSettings,
+} from '@/lib/clusters';
+
+const ClusterProvider = ({ children }: { children: ReactNode }) => {
+  const [settings, setSettings] = useState<ClusterSettings>(loadClusterSettings);
+
+  const setCluster = useCallback((next: ClusterSettings) => {
+    saveClusterSettings(next);
+    setSettings(next);
+  }, []);
+
+  const value = useMemo(() => {
+    const endpoint = getClusterEndpoint(settings);
+    console.log("Using Solana endpoint:", { cluster: settings.id, endpoint });
+    return { cluster: settings.id, settings, endpoint, setCluster };
+  }, [settings, setCluster]);
+
+  return <ClusterContext.Provider value={value}>{children}</ClusterContext.Provider>;
+};
+
+export default ClusterProvider;
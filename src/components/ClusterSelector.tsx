@@ -0,0 +1,69 @@
+import { useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useCluster } from '@/hooks/use-cluster';
+import { CLUSTER_IDS, CLUSTER_LABELS, ClusterId, isValidRpcUrl } from '@/lib/clusters';
+
+const ClusterSelector = () => {
+  const { cluster, settings, setCluster } = useCluster();
+  const [selected, setSelected] = useState<ClusterId>(cluster);
+  const [customUrl, setCustomUrl] = useState(settings.customUrl);
+
+  const handleSelect = (id: ClusterId) => {
+    setSelected(id);
+    if (id !== 'custom') {
+      setCluster({ id, customUrl: settings.customUrl });
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <Badge
+        className={
+          cluster === 'mainnet-beta'
+            ? 'bg-[#00B679] hover:bg-[#00B679] text-white'
+            : 'bg-amber-500 hover:bg-amber-500 text-black'
+        }
+      >
+        {CLUSTER_LABELS[cluster]}
+      </Badge>
+      <Select value={selected} onValueChange={handleSelect}>
+        <SelectTrigger className="w-40 bg-transparent border-[#1C2539] text-white">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {CLUSTER_IDS.map((id) => (
+            <SelectItem key={id} value={id}>{CLUSTER_LABELS[id]}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      {selected === 'custom' && (
+        <>
+          <Input
+            placeholder="https://your-rpc.example.com"
+            value={customUrl}
+            onChange={(e) => setCustomUrl(e.target.value.trim())}
+            className="w-64 bg-gray-900/50 border-gray-700 text-white"
+          />
+          <Button
+            size="sm"
+            disabled={!isValidRpcUrl(customUrl)}
+            onClick={() => setCluster({ id: 'custom', customUrl })}
+          >
+            Connect
+          </Button>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ClusterSelector;
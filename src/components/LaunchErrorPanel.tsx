@@ -0,0 +1,165 @@
+import { Button } from '@/components/ui/button';
+import { toast } from '@/components/ui/use-toast';
+import { formatLamports } from '@/api/pricing';
+import {
+  InsufficientBalanceError,
+  PartialLaunchError,
+  SimulationFailedError,
+  TokenCreationError,
+  TokenCreationErrorCode,
+} from '@/api/token-creation-errors';
+import { useCluster } from '@/hooks/use-cluster';
+import { getExplorerUrl } from '@/lib/clusters';
+import { LAUNCH_STAGE_LABELS, LaunchStage } from '@/lib/launch-checkpoint';
+
+interface LaunchErrorPanelProps {
+  error: TokenCreationError;
+  walletAddress?: string;
+  onRetry: () => void;
+  // Offered for partial and pending launches when given.
+  onResume?: () => void;
+  onDismiss: () => void;
+}
+
+const TITLES: Record<TokenCreationErrorCode, string> = {
+  USER_REJECTED: 'Transaction rejected',
+  WALLET_ERROR: 'Wallet error',
+  INSUFFICIENT_BALANCE: 'Insufficient balance',
+  BLOCKHASH_EXPIRED: 'Transaction timed out',
+  RPC_UNAVAILABLE: 'Network unavailable',
+  SIMULATION_FAILED: 'Simulation failed, the failing transaction was not sent',
+  TRANSACTION_FAILED: 'Transaction failed',
+  LAUNCH_PENDING: 'Launch still pending',
+  INVALID_LAUNCH: 'Cannot continue',
+  INVALID_INPUT: 'Invalid input',
+  QUOTE_EXPIRED: 'Fee quote expired',
+  PARTIAL_LAUNCH: 'Launch partly completed',
+  UPLOAD_FAILED: 'Metadata upload failed',
+  UNKNOWN: 'Something went wrong',
+};
+
+// What the user can do about each failure. Codes without a hint just show the message.
+const HINTS: Partial<Record<TokenCreationErrorCode, string>> = {
+  USER_REJECTED: 'Nothing was sent. Approve the transactions in your wallet to continue.',
+  WALLET_ERROR: 'Make sure your wallet is unlocked and connected, then try again.',
+  BLOCKHASH_EXPIRED: 'The network was too slow to confirm the transaction. A faster transaction speed can help.',
+  RPC_UNAVAILABLE: 'Try again, or switch to another network or custom RPC endpoint.',
+  INVALID_INPUT: 'Nothing was sent. Correct the value and submit it again.',
+  QUOTE_EXPIRED: 'Nothing was sent. Check the updated fee, then launch again to pay it.',
+  LAUNCH_PENDING: 'Wait a minute for the earlier transaction to settle, then resume.',
+  PARTIAL_LAUNCH: 'Your launch is saved on this device. Resuming finishes the remaining stages with the same mint, here or from the unfinished launch prompt at the top of the launch page.',
+  UPLOAD_FAILED: 'Nothing was sent on-chain. Check the logo file and try again.',
+};
+
+// What a token that stopped before each stage is missing.
+const MISSING_STAGE_EFFECTS: Record<LaunchStage, string> = {
+  mint: 'The mint account has not been created.',
+  metadata: 'Wallets and explorers show the token without a name, symbol or logo.',
+  supply: 'No supply has been minted, and the authorities are not yet set as chosen.',
+  fee: 'The service fee has not been charged.',
+};
+
+const RETRYABLE: TokenCreationErrorCode[] = [
+  'USER_REJECTED',
+  'WALLET_ERROR',
+  'INSUFFICIENT_BALANCE',
+  'BLOCKHASH_EXPIRED',
+  'RPC_UNAVAILABLE',
+  'SIMULATION_FAILED',
+  'TRANSACTION_FAILED',
+  'QUOTE_EXPIRED',
+  'UPLOAD_FAILED',
+  'UNKNOWN',
+];
+
+const LaunchErrorPanel = ({ error, walletAddress, onRetry, onResume, onDismiss }: LaunchErrorPanelProps) => {
+  const { settings } = useCluster();
+
+  const handleCopyAddress = async () => {
+    if (!walletAddress) {
+      return;
+    }
+    await navigator.clipboard.writeText(walletAddress);
+    toast({
+      title: "Copied",
+      description: "Wallet address copied to clipboard",
+    });
+  };
+
+  const cause = error instanceof PartialLaunchError && error.cause instanceof TokenCreationError
+    ? error.cause
+    : null;
+  const details = cause ?? error;
+
+  return (
+    <div className="border border-red-500/50 p-4 rounded-lg text-sm space-y-3">
+      <div className="space-y-1">
+        <p className="font-semibold text-red-400">{TITLES[error.code]}</p>
+        <p className="text-red-400">
+          {details instanceof SimulationFailedError ? details.reason : details.message}
+        </p>
+        {HINTS[error.code] && <p className="text-muted-foreground">{HINTS[error.code]}</p>}
+      </div>
+
+      {error instanceof PartialLaunchError && (
+        <div className="space-y-2">
+          <p className="text-yellow-400">
+            Your token exists on-chain but the launch is not finished. Resume it to complete the remaining stages.
+          </p>
+          <a
+            href={getExplorerUrl(`/address/${error.mintAddress}`, settings)}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="block text-muted-foreground underline break-all"
+          >
+            Mint: {error.mintAddress}
+          </a>
+          <ul className="space-y-1">
+            {error.completedStages.map((stage) => (
+              <li key={stage} className="text-emerald-400">✓ {LAUNCH_STAGE_LABELS[stage]}</li>
+            ))}
+            {error.remainingStages.map((stage) => (
+              <li key={stage} className="text-gray-400">
+                ○ {LAUNCH_STAGE_LABELS[stage]}: not done. {MISSING_STAGE_EFFECTS[stage]}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {details instanceof InsufficientBalanceError && (
+        <div className="space-y-1">
+          {details.shortfall.lines.map(({ label, lamports }) => (
+            <p key={label} className="text-muted-foreground">{label}: {formatLamports(lamports)}</p>
+          ))}
+          <p>Required: {details.shortfall.required}</p>
+          <p>Wallet balance: {details.shortfall.available}</p>
+        </div>
+      )}
+
+      {details instanceof SimulationFailedError && details.logs.length > 0 && (
+        <details>
+          <summary className="cursor-pointer text-muted-foreground">Program logs</summary>
+          <pre className="mt-2 max-h-48 overflow-auto whitespace-pre-wrap break-all text-xs text-muted-foreground">
+            {details.logs.join('\n')}
+          </pre>
+        </details>
+      )}
+
+      <div className="flex flex-wrap gap-2">
+        {onResume && (error.code === 'PARTIAL_LAUNCH' || error.code === 'LAUNCH_PENDING') && (
+          <Button size="sm" onClick={onResume}>Resume launch</Button>
+        )}
+        {RETRYABLE.includes(error.code) && (
+          <Button size="sm" onClick={onRetry}>Try again</Button>
+        )}
+        {error.code === 'INSUFFICIENT_BALANCE' && walletAddress && (
+          <Button size="sm" variant="secondary" onClick={handleCopyAddress}>Copy wallet address</Button>
+        )}
+        <Button size="sm" variant="ghost" onClick={onDismiss}>Dismiss</Button>
+      </div>
+    </div>
+  );
+};
+
+export default LaunchErrorPanel;
@@ -0,0 +1,115 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { useCluster } from '@/hooks/use-cluster';
+import { getExplorerUrl } from '@/lib/clusters';
+import { LaunchStep, LaunchStepStatus } from '@/api/launch-progress';
+
+interface LaunchTimelineProps<S extends string> {
+  steps: LaunchStep<S>[];
+  labels: Record<S, string>;
+  title?: string;
+  onRetry: () => void;
+  retryDisabled?: boolean;
+}
+
+const STATUS_LABELS: Record<LaunchStepStatus, string> = {
+  'awaiting-signature': 'Awaiting signature',
+  sent: 'Sent, waiting for confirmation',
+  confirmed: 'Confirmed',
+  failed: 'Failed',
+};
+
+const STATUS_STYLES: Record<LaunchStepStatus, string> = {
+  'awaiting-signature': 'text-muted-foreground',
+  sent: 'text-yellow-400',
+  confirmed: 'text-emerald-400',
+  failed: 'text-red-400',
+};
+
+const STATUS_ICONS: Record<LaunchStepStatus, string> = {
+  'awaiting-signature': '○',
+  sent: '◔',
+  confirmed: '✓',
+  failed: '✕',
+};
+
+const formatElapsed = (milliseconds: number) => `${(Math.max(milliseconds, 0) / 1000).toFixed(1)}s`;
+
+const LaunchTimeline = <S extends string>({
+  steps,
+  labels,
+  title = 'Launch Progress',
+  onRetry,
+  retryDisabled,
+}: LaunchTimelineProps<S>) => {
+  const { settings } = useCluster();
+  const [now, setNow] = useState(Date.now());
+  // Stages packed into one transaction fail together; retry is offered once.
+  const failedStage = steps.find(({ status }) => status === 'failed')?.stage;
+  // After a failure, later transactions are never sent, so nothing is running.
+  const isRunning = !failedStage && steps.some(({ finishedAt }) => finishedAt === undefined);
+
+  // Ticks the elapsed time of steps still in progress.
+  useEffect(() => {
+    if (!isRunning) {
+      return;
+    }
+    const interval = window.setInterval(() => setNow(Date.now()), 500);
+    return () => window.clearInterval(interval);
+  }, [isRunning]);
+
+  if (steps.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="bg-secondary/50 p-4 rounded-lg space-y-4">
+      <h3 className="font-semibold mb-2">{title}</h3>
+      <ol className="space-y-3 text-sm">
+        {steps.map(({ stage, status, signature, startedAt, finishedAt, simulated, error }) => {
+          const isHalted = !!failedStage && finishedAt === undefined;
+          return (
+            <li key={stage} className="space-y-1">
+              <div className="flex items-center justify-between gap-2">
+                <span className={isHalted ? 'text-gray-400' : STATUS_STYLES[status]}>
+                  {isHalted ? '○' : STATUS_ICONS[status]} {labels[stage]}: {isHalted ? 'Not sent' : STATUS_LABELS[status]}
+                </span>
+                {!isHalted && (
+                  <span className="text-muted-foreground tabular-nums">
+                    {formatElapsed((finishedAt ?? now) - startedAt)}
+                  </span>
+                )}
+              </div>
+              {simulated === false && status === 'awaiting-signature' && !isHalted && (
+                <p className="text-xs text-muted-foreground">
+                  Not simulated yet: it uses accounts the previous transaction creates, so it is simulated after that
+                  one lands and before it is sent.
+                </p>
+              )}
+              {signature && (
+                <a
+                  href={getExplorerUrl(`/tx/${signature}`, settings)}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="block text-xs text-muted-foreground underline break-all"
+                >
+                  {signature}
+                </a>
+              )}
+              {stage === failedStage && (
+                <div className="flex items-center justify-between gap-2">
+                  <p className="text-xs text-red-400">{error?.message}</p>
+                  <Button size="sm" variant="secondary" onClick={onRetry} disabled={retryDisabled}>
+                    Retry
+                  </Button>
+                </div>
+              )}
+            </li>
+          );
+        })}
+      </ol>
+    </div>
+  );
+};
+
+export default LaunchTimeline;
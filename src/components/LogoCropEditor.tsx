@@ -0,0 +1,139 @@
+import { useEffect, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Slider } from '@/components/ui/slider';
+import {
+  DEFAULT_LOGO_CROP,
+  LOGO_FORMAT_LABELS,
+  LOGO_SIZES,
+  LogoCrop,
+  LogoFormat,
+  LogoSize,
+  MAX_LOGO_ZOOM,
+  drawLogo,
+  panLogoCrop,
+  renderLogo,
+} from '@/lib/logo';
+
+interface LogoCropEditorProps {
+  image: ImageBitmap;
+  onApply: (logo: File) => void;
+  onCancel: () => void;
+}
+
+const PREVIEW_SIZE = 256;
+
+const LogoCropEditor = ({ image, onApply, onCancel }: LogoCropEditorProps) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const dragRef = useRef<{ x: number; y: number } | null>(null);
+  const [crop, setCrop] = useState<LogoCrop>(DEFAULT_LOGO_CROP);
+  const [size, setSize] = useState<LogoSize>(500);
+  const [format, setFormat] = useState<LogoFormat>('image/png');
+  const [isRendering, setIsRendering] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (canvasRef.current) {
+      drawLogo(canvasRef.current, image, crop, PREVIEW_SIZE);
+    }
+  }, [image, crop]);
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragRef.current = { x: e.clientX, y: e.clientY };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const start = dragRef.current;
+    if (!start) {
+      return;
+    }
+    // The canvas may be drawn smaller than its pixel size on narrow screens.
+    const displayed = e.currentTarget.getBoundingClientRect().width || PREVIEW_SIZE;
+    setCrop((current) => panLogoCrop(current, image, e.clientX - start.x, e.clientY - start.y, displayed));
+    dragRef.current = { x: e.clientX, y: e.clientY };
+  };
+
+  const handleApply = async () => {
+    setIsRendering(true);
+    setError(null);
+    try {
+      onApply(await renderLogo(image, crop, { size, format }));
+    } catch (renderError) {
+      setError(renderError instanceof Error ? renderError.message : 'The logo could not be created');
+    } finally {
+      setIsRendering(false);
+    }
+  };
+
+  const isSmall = Math.min(image.width, image.height) / crop.zoom < size;
+
+  return (
+    <div className="space-y-4 text-left">
+      <canvas
+        ref={canvasRef}
+        className="mx-auto block w-64 max-w-full aspect-square rounded-full cursor-grab active:cursor-grabbing touch-none bg-gray-900"
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={() => (dragRef.current = null)}
+        onPointerCancel={() => (dragRef.current = null)}
+      />
+      <p className="text-sm text-gray-400 text-center">Drag to position your logo</p>
+
+      <div className="grid gap-2">
+        <Label>Zoom</Label>
+        <Slider
+          min={1}
+          max={MAX_LOGO_ZOOM}
+          step={0.01}
+          value={[crop.zoom]}
+          onValueChange={([zoom]) => setCrop({ ...crop, zoom })}
+        />
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-2">
+        <div className="grid gap-2">
+          <Label>Size</Label>
+          <RadioGroup value={String(size)} onValueChange={(value) => setSize(Number(value) as LogoSize)} className="flex gap-4">
+            {LOGO_SIZES.map((option) => (
+              <div key={option} className="flex items-center gap-2">
+                <RadioGroupItem value={String(option)} id={`logo-size-${option}`} />
+                <Label htmlFor={`logo-size-${option}`}>{option}×{option}</Label>
+              </div>
+            ))}
+          </RadioGroup>
+        </div>
+        <div className="grid gap-2">
+          <Label>Format</Label>
+          <RadioGroup value={format} onValueChange={(value) => setFormat(value as LogoFormat)} className="flex gap-4">
+            {(Object.keys(LOGO_FORMAT_LABELS) as LogoFormat[]).map((option) => (
+              <div key={option} className="flex items-center gap-2">
+                <RadioGroupItem value={option} id={`logo-format-${option}`} />
+                <Label htmlFor={`logo-format-${option}`}>{LOGO_FORMAT_LABELS[option]}</Label>
+              </div>
+            ))}
+          </RadioGroup>
+        </div>
+      </div>
+
+      {isSmall && (
+        <p className="text-sm text-yellow-400">
+          The selected area is smaller than {size}×{size} pixels and will be scaled up.
+        </p>
+      )}
+      {error && <p className="text-sm text-red-400">{error}</p>}
+
+      <div className="flex justify-end gap-2">
+        <Button variant="ghost" onClick={onCancel} disabled={isRendering}>
+          Cancel
+        </Button>
+        <Button onClick={handleApply} disabled={isRendering}>
+          {isRendering ? 'Processing...' : 'Use Logo'}
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default LogoCropEditor;
@@ -0,0 +1,214 @@
+import { useEffect, useState } from 'react';
+import { useConnection, useWallet } from '@solana/wallet-adapter-react';
+import { PublicKey, TransactionInstruction } from '@solana/web3.js';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { useEditableMetadata } from '@/hooks/use-editable-metadata';
+import {
+  OffChainMetadataFields,
+  createUpdateMetadataInstruction,
+  hasMetadataFieldErrors,
+  validateMetadataFields,
+} from '@/api/token-metadata';
+import { uploadTokenMetadata } from '@/api/metadata-storage';
+import { MetadataMode, createUpdateOnMintMetadataInstructions, replaceSocialFields } from '@/api/mint-metadata';
+
+interface MetadataEditorProps {
+  mintAddress: string;
+  // Where the metadata lives: a Metaplex account, or the Token-2022 mint itself.
+  source: MetadataMode;
+  updateAuthority: PublicKey;
+  disabled: boolean;
+  isUpdating: boolean;
+  onSubmit: (buildInstructions: () => Promise<TransactionInstruction[]>) => void;
+}
+
+const SOCIAL_INPUTS: { field: 'website' | 'twitter' | 'telegram' | 'discord'; label: string; placeholder: string }[] = [
+  { field: 'website', label: 'Website', placeholder: 'https://example.com' },
+  { field: 'twitter', label: 'Twitter', placeholder: 'https://x.com/yourtoken' },
+  { field: 'telegram', label: 'Telegram', placeholder: 'https://t.me/yourtoken' },
+  { field: 'discord', label: 'Discord', placeholder: 'https://discord.gg/yourtoken' },
+];
+
+const MetadataEditor = ({ mintAddress, source, updateAuthority, disabled, isUpdating, onSubmit }: MetadataEditorProps) => {
+  const { connection } = useConnection();
+  const { signMessage } = useWallet();
+  const { data: current, isLoading, error } = useEditableMetadata(mintAddress, source);
+  const [name, setName] = useState('');
+  const [symbol, setSymbol] = useState('');
+  const [fields, setFields] = useState<OffChainMetadataFields>({});
+  const [useCustomUri, setUseCustomUri] = useState(false);
+  const [customUri, setCustomUri] = useState('');
+  const [logo, setLogo] = useState<File | null>(null);
+  const [makeImmutable, setMakeImmutable] = useState(false);
+
+  // Start from what is on-chain, and again after every confirmed update.
+  useEffect(() => {
+    if (!current) {
+      return;
+    }
+    const { name, symbol, uri } = current.metadata;
+    setName(name);
+    setSymbol(symbol);
+    setFields(current.offChain);
+    // Links are kept as they are; JSON written here is rebuilt from the fields.
+    setUseCustomUri(/^https?:\/\//.test(uri));
+    setCustomUri(uri);
+    setLogo(null);
+    setMakeImmutable(false);
+  }, [current]);
+
+  if (isLoading) {
+    return <p className="text-sm text-muted-foreground">Loading metadata...</p>;
+  }
+  if (error || !current) {
+    return <p className="text-sm text-red-400">Failed to load this token's metadata</p>;
+  }
+
+  // Edited fields are uploaded as new JSON when the update is sent.
+  const errors = validateMetadataFields({ name, symbol, uri: useCustomUri ? customUri.trim() : undefined });
+
+  const handleSubmit = () => {
+    if (makeImmutable && !window.confirm('Make the metadata immutable? Nobody will ever be able to update it again.')) {
+      return;
+    }
+    onSubmit(async () => {
+      const uri = useCustomUri
+        ? customUri.trim()
+        : (await uploadTokenMetadata({
+            name,
+            symbol,
+            fields,
+            media: { logo },
+            signer: { walletAddress: updateAuthority.toBase58(), signMessage },
+          })).uri;
+      if (current.source === 'token-2022') {
+        // Links are also kept on the mint, next to any other additional fields.
+        return createUpdateOnMintMetadataInstructions(connection, {
+          mint: current.address,
+          updateAuthority,
+          current: current.metadata,
+          metadata: { name, symbol, uri, additionalFields: replaceSocialFields(current.metadata.additionalMetadata, fields) },
+          makeImmutable,
+        });
+      }
+      return [
+        createUpdateMetadataInstruction({
+          metadataAddress: current.address,
+          current: current.metadata,
+          updateAuthority,
+          name,
+          symbol,
+          uri,
+          makeImmutable,
+        }),
+      ];
+    });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="grid gap-4 md:grid-cols-2">
+        <div className="grid gap-2">
+          <Label htmlFor="metadataName">Name</Label>
+          <Input id="metadataName" value={name} onChange={(e) => setName(e.target.value)} />
+          {errors.name && <p className="text-sm text-red-400">{errors.name}</p>}
+        </div>
+        <div className="grid gap-2">
+          <Label htmlFor="metadataSymbol">Symbol</Label>
+          <Input id="metadataSymbol" value={symbol} onChange={(e) => setSymbol(e.target.value)} />
+          {errors.symbol && <p className="text-sm text-red-400">{errors.symbol}</p>}
+        </div>
+      </div>
+
+      <div className="flex items-center justify-between">
+        <div>
+          <Label htmlFor="useCustomUri">Custom metadata URI</Label>
+          <p className="text-sm text-muted-foreground">Point to JSON you host yourself instead of editing the fields below</p>
+        </div>
+        <Switch id="useCustomUri" checked={useCustomUri} onCheckedChange={setUseCustomUri} />
+      </div>
+
+      {useCustomUri ? (
+        <div className="grid gap-2">
+          <Label htmlFor="metadataUri">Metadata URI</Label>
+          <Input
+            id="metadataUri"
+            placeholder="https://example.com/token.json"
+            value={customUri}
+            onChange={(e) => setCustomUri(e.target.value)}
+          />
+        </div>
+      ) : (
+        <>
+          <div className="grid gap-2">
+            <Label htmlFor="metadataDescription">Description</Label>
+            <Textarea
+              id="metadataDescription"
+              value={fields.description ?? ''}
+              onChange={(e) => setFields({ ...fields, description: e.target.value })}
+            />
+          </div>
+          <div className="grid gap-2">
+            <Label htmlFor="metadataImage">Logo</Label>
+            <Input
+              id="metadataImage"
+              placeholder="https://example.com/logo.png"
+              value={logo ? logo.name : fields.image ?? ''}
+              disabled={!!logo}
+              onChange={(e) => setFields({ ...fields, image: e.target.value })}
+            />
+            <div className="flex items-center gap-2">
+              <Input
+                id="metadataLogoFile"
+                type="file"
+                accept="image/png,image/jpeg,image/gif,image/webp"
+                onChange={(e) => setLogo(e.target.files?.[0] ?? null)}
+              />
+              {logo && (
+                <Button variant="ghost" size="sm" onClick={() => setLogo(null)}>
+                  Clear
+                </Button>
+              )}
+            </div>
+          </div>
+          <div className="grid gap-4 md:grid-cols-2">
+            {SOCIAL_INPUTS.map(({ field, label, placeholder }) => (
+              <div key={field} className="grid gap-2">
+                <Label htmlFor={`metadata-${field}`}>{label}</Label>
+                <Input
+                  id={`metadata-${field}`}
+                  placeholder={placeholder}
+                  value={fields[field] ?? ''}
+                  onChange={(e) => setFields({ ...fields, [field]: e.target.value })}
+                />
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+      {errors.uri && <p className="text-sm text-red-400">{errors.uri}</p>}
+
+      <div className="flex items-center justify-between">
+        <div>
+          <Label htmlFor="makeImmutable">Make metadata immutable</Label>
+          <p className="text-sm text-muted-foreground">Gives up the update authority for good with this update</p>
+        </div>
+        <Switch id="makeImmutable" checked={makeImmutable} onCheckedChange={setMakeImmutable} />
+      </div>
+
+      <Button
+        variant={makeImmutable ? 'destructive' : 'default'}
+        disabled={disabled || hasMetadataFieldErrors(errors)}
+        onClick={handleSubmit}
+      >
+        {isUpdating ? 'Updating...' : 'Update Metadata'}
+      </Button>
+    </div>
+  );
+};
+
+export default MetadataEditor;
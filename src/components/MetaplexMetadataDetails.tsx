@@ -0,0 +1,27 @@
+import { MetaplexMetadata } from '@/api/metaplex-metadata';
+
+interface MetaplexMetadataDetailsProps {
+  metadata: MetaplexMetadata;
+  className?: string;
+}
+
+// The parts of a decoded Metaplex metadata account that aren't shown elsewhere on the page.
+const MetaplexMetadataDetails = ({ metadata, className = '' }: MetaplexMetadataDetailsProps) => (
+  <>
+    <p className={className}>
+      Metadata: {metadata.tokenStandard ?? 'Standard not set'} · {metadata.isMutable ? 'mutable' : 'immutable'} · {metadata.sellerFeeBasisPoints / 100}% royalties
+    </p>
+    {metadata.creators?.map((creator) => (
+      <p key={creator.address} className={`${className} break-all`}>
+        Creator: {creator.address} ({creator.share}%{creator.verified ? ', verified' : ', unverified'})
+      </p>
+    ))}
+    {metadata.collection && (
+      <p className={`${className} break-all`}>
+        Collection: {metadata.collection.key}{metadata.collection.verified ? ' (verified)' : ''}
+      </p>
+    )}
+  </>
+);
+
+export default MetaplexMetadataDetails;
@@ -0,0 +1,137 @@
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useConnection, useWallet } from '@solana/wallet-adapter-react';
+import { Button } from '@/components/ui/button';
+import { toast } from '@/components/ui/use-toast';
+import { createToken } from '@/api/create-token';
+import { TokenCreationError, toTokenCreationError } from '@/api/token-creation-errors';
+import LaunchErrorPanel from '@/components/LaunchErrorPanel';
+import { summarizeAuthorityStates } from '@/api/launch-verification';
+import { useLaunchCheckpoint } from '@/hooks/use-launch-checkpoint';
+import { useCluster } from '@/hooks/use-cluster';
+import { createLaunchReceipt, formatFeePaid, saveLaunchReceipt } from '@/lib/launch-receipts';
+import {
+  LAUNCH_STAGES,
+  LAUNCH_STAGE_LABELS,
+  LaunchCheckpoint,
+  clearLaunchCheckpoint,
+  getLastCompletedStage,
+  hasLaunchProgress,
+} from '@/lib/launch-checkpoint';
+
+interface ResumeLaunchPromptProps {
+  // Called after the saved launch is discarded, with the checkpoint it had.
+  onDiscard?: (checkpoint: LaunchCheckpoint) => void;
+}
+
+const ResumeLaunchPrompt = ({ onDiscard }: ResumeLaunchPromptProps) => {
+  const { connection } = useConnection();
+  const { cluster, settings } = useCluster();
+  const { publicKey, signAllTransactions } = useWallet();
+  const checkpoint = useLaunchCheckpoint(publicKey?.toBase58());
+  const [isResuming, setIsResuming] = useState(false);
+  const [resumeError, setResumeError] = useState<TokenCreationError | null>(null);
+  const navigate = useNavigate();
+
+  if (!checkpoint || !hasLaunchProgress(checkpoint)) {
+    return null;
+  }
+
+  const lastStage = getLastCompletedStage(checkpoint);
+
+  const handleResume = async () => {
+    if (!publicKey || !signAllTransactions) {
+      return;
+    }
+
+    setIsResuming(true);
+    setResumeError(null);
+    try {
+      const result = await createToken({
+        ...checkpoint.params,
+        connection,
+        cluster,
+        walletAddress: publicKey.toString(),
+        signAllTransactions,
+        resume: checkpoint,
+      });
+
+      const receipt = createLaunchReceipt({
+        result,
+        params: checkpoint.params,
+        cluster: settings,
+        walletAddress: publicKey.toBase58(),
+      });
+      saveLaunchReceipt(receipt);
+      toast({
+        title: "Success!",
+        description: `Token launch completed! Fee paid: ${formatFeePaid(receipt)}. Token address: ${result.tokenAddress}`,
+      });
+
+      if (result.authorityStates) {
+        const allVerified = result.authorityStates.every(({ verified }) => verified);
+        toast({
+          title: allVerified ? "Authorities verified" : "Authority check failed",
+          description: summarizeAuthorityStates(result.authorityStates),
+          variant: allVerified ? "default" : "destructive"
+        });
+      }
+      navigate(`/launch/${result.tokenAddress}`);
+    } catch (error) {
+      console.error('Error:', error);
+      setResumeError(toTokenCreationError(error));
+    } finally {
+      setIsResuming(false);
+    }
+  };
+
+  const handleDiscard = () => {
+    if (window.confirm('Discard this launch? The saved mint key will be deleted and the launch cannot be finished later.')) {
+      clearLaunchCheckpoint(checkpoint.walletAddress);
+      onDiscard?.(checkpoint);
+    }
+  };
+
+  return (
+    <div className="bg-secondary/50 p-4 rounded-lg space-y-4">
+      <div>
+        <h3 className="font-semibold">Unfinished launch: {checkpoint.params.name} ({checkpoint.params.symbol})</h3>
+        <p className="text-sm text-muted-foreground break-all">Mint: {checkpoint.mintAddress}</p>
+        <p className="text-sm text-muted-foreground">
+          {lastStage ? `Last confirmed stage: ${LAUNCH_STAGE_LABELS[lastStage]}` : 'No stage confirmed yet'}
+        </p>
+      </div>
+      <ul className="text-sm space-y-1">
+        {LAUNCH_STAGES.map((stage) => (
+          <li key={stage} className={checkpoint.completedStages.includes(stage) ? 'text-emerald-400' : 'text-gray-400'}>
+            {checkpoint.completedStages.includes(stage) ? '✓' : '○'} {LAUNCH_STAGE_LABELS[stage]}
+          </li>
+        ))}
+      </ul>
+      {resumeError && (
+        <LaunchErrorPanel
+          error={resumeError}
+          walletAddress={publicKey?.toBase58()}
+          onRetry={handleResume}
+          onResume={handleResume}
+          onDismiss={() => setResumeError(null)}
+        />
+      )}
+      <div className="flex gap-2">
+        <Button onClick={handleResume} disabled={isResuming} className="bg-[#00B679] hover:bg-[#00A069]">
+          {isResuming ? "Resuming Launch..." : "Resume launch"}
+        </Button>
+        <Button
+          onClick={handleDiscard}
+          disabled={isResuming}
+          variant="outline"
+          className="bg-transparent border-[#1C2539] hover:bg-[#1C2539] text-white"
+        >
+          Discard
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default ResumeLaunchPrompt;
@@ -1,12 +1,22 @@
 
+import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { useState } from "react";
+import AssetDropzone from "@/components/AssetDropzone";
+import LogoCropEditor from "@/components/LogoCropEditor";
+import TokenMediaSettings from "@/components/TokenMediaSettings";
+import { useObjectUrl } from "@/hooks/use-object-url";
+import { MAX_NAME_LENGTH, MAX_SYMBOL_LENGTH, validateMetadataFields } from "@/api/token-metadata";
+import { LOGO_SOURCE_TYPES, loadLogoImage, validateLogoSource } from "@/lib/logo";
 
 interface TokenData {
   name: string;
   symbol: string;
   logo: File | null;
+  logoFromAnimation: boolean;
+  animatedLogo: File | null;
+  banner: File | null;
 }
 
 interface TokenCreationStep1Props {
@@ -15,18 +25,35 @@ interface TokenCreationStep1Props {
 }
 
 const TokenCreationStep1 = ({ tokenData, updateTokenData }: TokenCreationStep1Props) => {
-  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const previewUrl = useObjectUrl(tokenData.logo);
+  const [sourceImage, setSourceImage] = useState<ImageBitmap | null>(null);
+  const [logoError, setLogoError] = useState<string | null>(null);
+  const fieldErrors = validateMetadataFields({ name: tokenData.name, symbol: tokenData.symbol });
 
-  const handleLogoUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (file) {
-      updateTokenData({ logo: file });
-      const reader = new FileReader();
-      reader.onloadend = () => {
-        setPreviewUrl(reader.result as string);
-      };
-      reader.readAsDataURL(file);
+  // The chosen file only becomes the logo once it has been cropped and re-encoded.
+  const handleLogoFile = async (file: File) => {
+    const invalid = validateLogoSource(file);
+    setLogoError(invalid);
+    if (invalid) {
+      return;
     }
+    try {
+      const image = await loadLogoImage(file);
+      sourceImage?.close();
+      setSourceImage(image);
+    } catch (error) {
+      setLogoError(error instanceof Error ? error.message : "This image could not be read");
+    }
+  };
+
+  const closeEditor = () => {
+    sourceImage?.close();
+    setSourceImage(null);
+  };
+
+  const handleApplyLogo = (logo: File) => {
+    updateTokenData({ logo, logoFromAnimation: false });
+    closeEditor();
   };
 
   return (
@@ -43,6 +70,11 @@ const TokenCreationStep1 = ({ tokenData, updateTokenData }: TokenCreationStep1Pr
             className="bg-gray-900/50 border-gray-700 text-white mt-2"
             placeholder="Enter token name"
           />
+          {tokenData.name && fieldErrors.name ? (
+            <p className="text-sm text-red-400 mt-1">{fieldErrors.name}</p>
+          ) : (
+            <p className="text-sm text-gray-400 mt-1">Up to {MAX_NAME_LENGTH} characters</p>
+          )}
         </div>
 
         <div>
@@ -54,12 +86,19 @@ const TokenCreationStep1 = ({ tokenData, updateTokenData }: TokenCreationStep1Pr
             className="bg-gray-900/50 border-gray-700 text-white mt-2"
             placeholder="Enter token symbol"
           />
+          {tokenData.symbol && fieldErrors.symbol ? (
+            <p className="text-sm text-red-400 mt-1">{fieldErrors.symbol}</p>
+          ) : (
+            <p className="text-sm text-gray-400 mt-1">Up to {MAX_SYMBOL_LENGTH} characters</p>
+          )}
         </div>
 
         <div>
           <Label>Logo</Label>
-          <div className="mt-2 border-2 border-dashed border-gray-700 rounded-lg p-6 text-center">
-            {previewUrl ? (
+          <AssetDropzone inputId="logo-upload" accept={LOGO_SOURCE_TYPES} onFile={handleLogoFile}>
+            {sourceImage ? (
+              <LogoCropEditor image={sourceImage} onApply={handleApplyLogo} onCancel={closeEditor} />
+            ) : previewUrl && tokenData.logo ? (
               <div className="flex flex-col items-center">
                 <img 
                   src={previewUrl} 
@@ -67,24 +106,34 @@ const TokenCreationStep1 = ({ tokenData, updateTokenData }: TokenCreationStep1Pr
                   className="w-24 h-24 rounded-full object-cover"
                 />
                 <p className="text-sm text-emerald-400 mt-2">
-                  Logo uploaded and resized to 500x500!
+                  Logo ready: {tokenData.logo.name}, {Math.ceil(tokenData.logo.size / 1024)} KB
                 </p>
+                <div className="flex gap-2 mt-2">
+                  <Button variant="secondary" size="sm" onClick={() => document.getElementById('logo-upload')?.click()}>
+                    Replace
+                  </Button>
+                  <Button variant="ghost" size="sm" onClick={() => updateTokenData({ logo: null, logoFromAnimation: false })}>
+                    Remove
+                  </Button>
+                </div>
               </div>
             ) : (
               <div className="cursor-pointer" onClick={() => document.getElementById('logo-upload')?.click()}>
                 <p className="text-gray-400">Click or drag to upload logo</p>
-                <p className="text-gray-500 text-sm mt-1">Recommended: 500x500px</p>
+                <p className="text-gray-500 text-sm mt-1">PNG, JPEG, WebP or GIF. Cropped to a square of 500x500 or 1000x1000px</p>
               </div>
             )}
-            <input
-              id="logo-upload"
-              type="file"
-              accept="image/*"
-              onChange={handleLogoUpload}
-              className="hidden"
-            />
-          </div>
+          </AssetDropzone>
+          {logoError && <p className="text-sm text-red-400 mt-1">{logoError}</p>}
         </div>
+
+        <TokenMediaSettings
+          logo={tokenData.logo}
+          logoFromAnimation={tokenData.logoFromAnimation}
+          animatedLogo={tokenData.animatedLogo}
+          banner={tokenData.banner}
+          updateTokenData={updateTokenData}
+        />
       </div>
     </div>
   );
@@ -2,6 +2,7 @@
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
+import { formatBaseUnits, validateSupply } from "@/lib/supply";
 
 interface TokenData {
   supply: string;
@@ -15,6 +16,8 @@ interface TokenCreationStep2Props {
 }
 
 const TokenCreationStep2 = ({ tokenData, updateTokenData }: TokenCreationStep2Props) => {
+  const supplyCheck = validateSupply(tokenData.supply, tokenData.decimals);
+
   return (
     <div className="space-y-6 animate-fade-in">
       <h2 className="text-2xl font-semibold mb-6">Supply & Description</h2>
@@ -49,6 +52,16 @@ const TokenCreationStep2 = ({ tokenData, updateTokenData }: TokenCreationStep2Pr
             <p>Common supply is 1 billion</p>
             <p>With commas: 1,000,000,000</p>
           </div>
+          {tokenData.supply && (
+            supplyCheck.error ? (
+              <p className="text-sm text-red-400 mt-2">{supplyCheck.error}</p>
+            ) : (
+              <div className="text-sm mt-2 bg-gray-900/50 border border-gray-700 rounded-lg p-3">
+                <p className="text-gray-400">Raw amount to be minted ({tokenData.supply} × 10^{tokenData.decimals}):</p>
+                <p className="text-emerald-400 font-mono break-all">{formatBaseUnits(supplyCheck.amount)} base units</p>
+              </div>
+            )
+          )}
         </div>
 
         <div>
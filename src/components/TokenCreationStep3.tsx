@@ -1,16 +1,76 @@
 import { useState } from 'react';
-import { useWallet } from '@solana/wallet-adapter-react';
+import { useNavigate } from 'react-router-dom';
+import { useConnection, useWallet } from '@solana/wallet-adapter-react';
+import { Keypair } from '@solana/web3.js';
 import { Button } from '@/components/ui/button';
 import { toast } from '@/components/ui/use-toast';
 import { createToken } from '@/api/create-token';
+import { summarizeAuthorityStates } from '@/api/launch-verification';
+import { validateMetadataFields } from '@/api/token-metadata';
+import { UPLOAD_STAGE_LABELS, UploadProgress, uploadTokenMetadata } from '@/api/metadata-storage';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Switch } from '@/components/ui/switch';
+import { Progress } from '@/components/ui/progress';
+import { useLaunchCheckpoint } from '@/hooks/use-launch-checkpoint';
+import { useCluster } from '@/hooks/use-cluster';
+import { useLaunchQuote } from '@/hooks/use-launch-quote';
+import { TokenCreationError, toTokenCreationError } from '@/api/token-creation-errors';
+import { PRIORITY_SPEEDS, PRIORITY_SPEED_LABELS, PrioritySpeed } from '@/api/priority-fees';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import {
+  formatLamports,
+  getPricingSchedule,
+  getServiceFeeFeatures,
+  getServiceFeeLines,
+  solToLamports,
+  sumQuoteLines,
+} from '@/api/pricing';
+import { redeemPromoCode } from '@/api/promo';
+import { SOL_FEE_CURRENCY, formatTokenAmount, getFeeCurrencies, getFeeCurrency } from '@/api/fee-payment';
+import { useTokenFeeQuote } from '@/hooks/use-token-fee-quote';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { AppliedPromo, getPromoMismatch } from '@/lib/promo-codes';
+import { loadReferrer } from '@/lib/referral';
+import { createLaunchReceipt, formatFeePaid, saveLaunchReceipt } from '@/lib/launch-receipts';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { LAUNCH_STAGE_LABELS, LaunchCheckpoint, hasLaunchProgress, loadLaunchCheckpoint } from '@/lib/launch-checkpoint';
+import { validateSupply } from '@/lib/supply';
+import TokenProgramSettings from '@/components/TokenProgramSettings';
+import VanityAddressSettings from '@/components/VanityAddressSettings';
+import LaunchErrorPanel from '@/components/LaunchErrorPanel';
+import LaunchTimeline from '@/components/LaunchTimeline';
+import { LaunchProgressEvent, LaunchStep, applyLaunchProgressEvent } from '@/api/launch-progress';
+import { MetadataMode } from '@/api/mint-metadata';
+import {
+  TokenExtensionSettings,
+  TokenProgramChoice,
+  validateExtensionSettings,
+} from '@/api/token-extensions';
 
 interface TokenCreationStep3Props {
   tokenData: {
     name: string;
     symbol: string;
+    description?: string;
+    logo?: File | null;
+    animatedLogo?: File | null;
+    banner?: File | null;
     supply: string;
     decimals: number;
     authorities?: {
@@ -23,6 +83,11 @@ interface TokenCreationStep3Props {
     telegram?: string;
     discord?: string;
     creatorName?: string;
+    creatorWebsite?: string;
+    tokenProgram: TokenProgramChoice;
+    extensions: TokenExtensionSettings;
+    metadataMode: MetadataMode;
+    vanityMint: Keypair | null;
   };
   updateTokenData: (data: Partial<{
     name: string;
@@ -41,30 +106,51 @@ interface TokenCreationStep3Props {
       mintAuthority: boolean;
       updateAuthority: boolean;
     };
+    tokenProgram: TokenProgramChoice;
+    extensions: TokenExtensionSettings;
+    metadataMode: MetadataMode;
+    vanityMint: Keypair | null;
   }>) => void;
 }
 
 const TokenCreationStep3 = ({ tokenData, updateTokenData }: TokenCreationStep3Props) => {
-  const { publicKey, signTransaction } = useWallet();
+  const { connection } = useConnection();
+  const { cluster, settings } = useCluster();
+  const { publicKey, signAllTransactions, signMessage } = useWallet();
+  const navigate = useNavigate();
   const [isCreating, setIsCreating] = useState(false);
+  const [confirmMainnet, setConfirmMainnet] = useState(false);
+  const [prioritySpeed, setPrioritySpeed] = useState<PrioritySpeed>('normal');
+  const [promoCode, setPromoCode] = useState('');
+  const [promo, setPromo] = useState<AppliedPromo | null>(null);
+  const [isApplyingPromo, setIsApplyingPromo] = useState(false);
+  const baseServiceFees = getServiceFeeLines(cluster, tokenData);
+  const baseServiceFeeLamports = sumQuoteLines(baseServiceFees);
+  // A discount is only valid for the wallet, network and options it was granted for.
+  const promoMismatch = promo && getPromoMismatch(promo, {
+    walletAddress: publicKey?.toBase58() ?? '',
+    cluster,
+    features: getServiceFeeFeatures(baseServiceFees),
+  });
+  const activePromo = promo && !promoMismatch ? promo : null;
+  const { serviceFees, quote } = useLaunchQuote(tokenData, prioritySpeed, activePromo);
+  const referrer = loadReferrer();
+  const [feeCurrency, setFeeCurrency] = useState(SOL_FEE_CURRENCY);
+  // Falls back to SOL when the selected token isn't accepted on this cluster.
+  const selectedFeeCurrency = getFeeCurrency(cluster, feeCurrency);
+  const { data: tokenFeeQuote, refetch: refetchTokenFeeQuote } = useTokenFeeQuote(selectedFeeCurrency, sumQuoteLines(serviceFees));
+  const [launchError, setLaunchError] = useState<TokenCreationError | null>(null);
+  const [launchSteps, setLaunchSteps] = useState<LaunchStep[]>([]);
+  const [uploadProgress, setUploadProgress] = useState<UploadProgress | null>(null);
+  const pendingLaunch = useLaunchCheckpoint(publicKey?.toBase58());
   const [showCreatorInfo, setShowCreatorInfo] = useState(!!tokenData.creatorName);
 
-  const calculateFees = () => {
-    let totalFee = 0.05;
+  const pricing = getPricingSchedule(cluster);
+  const feeHint = (sol: number) => sol > 0 ? ` (+${formatLamports(solToLamports(sol))})` : '';
 
-    if (tokenData.authorities) {
-      if (tokenData.authorities.freezeAuthority) totalFee += 0.1;
-      if (tokenData.authorities.mintAuthority) totalFee += 0.1;
-      if (tokenData.authorities.updateAuthority) totalFee += 0.1;
-    }
-
-    if (tokenData.creatorName) totalFee += 0.1;
-
-    return Number(totalFee.toFixed(2));
-  };
-
-  const handleCreateToken = async () => {
-    if (!publicKey || !signTransaction) {
+  // With `resume`, finishes the saved launch instead of starting a new one.
+  const handleCreateToken = async (resume?: LaunchCheckpoint) => {
+    if (!publicKey || !signAllTransactions) {
       toast({
         title: "Error",
         description: "Please connect your wallet first",
@@ -73,32 +159,185 @@ const TokenCreationStep3 = ({ tokenData, updateTokenData }: TokenCreationStep3Pr
       return;
     }
 
+    if (!resume && pendingLaunch && hasLaunchProgress(pendingLaunch)) {
+      toast({
+        title: "Unfinished launch",
+        description: "Resume or discard your unfinished launch before starting a new one",
+        variant: "destructive"
+      });
+      return;
+    }
+
     setIsCreating(true);
+    setLaunchError(null);
+    setLaunchSteps([]);
+    const onProgress = (event: LaunchProgressEvent) =>
+      setLaunchSteps((steps) => applyLaunchProgressEvent(steps, event));
     try {
-      const result = await createToken({
+      // A resumed launch already has its metadata hosted.
+      const uri = resume ? undefined : (await uploadTokenMetadata({
+        name: tokenData.name,
+        symbol: tokenData.symbol,
+        fields: {
+          description: tokenData.description,
+          website: tokenData.website,
+          twitter: tokenData.twitter,
+          telegram: tokenData.telegram,
+          discord: tokenData.discord,
+          creatorName: tokenData.creatorName,
+          creatorWebsite: tokenData.creatorWebsite,
+        },
+        media: {
+          logo: tokenData.logo,
+          animatedLogo: tokenData.animatedLogo,
+          banner: tokenData.banner,
+        },
+        signer: { walletAddress: publicKey.toBase58(), signMessage },
+      }, setUploadProgress)).uri;
+      setUploadProgress(null);
+
+      const result = await createToken(resume ? {
+        ...resume.params,
+        connection,
+        cluster,
+        walletAddress: publicKey.toString(),
+        signAllTransactions,
+        resume,
+        prioritySpeed,
+        onProgress,
+      } : {
         ...tokenData,
+        uri,
+        connection,
+        cluster,
         walletAddress: publicKey.toString(),
-        signTransaction
+        signAllTransactions,
+        mintKeypair: tokenData.vanityMint ?? undefined,
+        prioritySpeed,
+        promo: activePromo,
+        referrer,
+        feeCurrency: selectedFeeCurrency?.symbol ?? SOL_FEE_CURRENCY,
+        feeQuote: tokenFeeQuote,
+        onProgress,
       });
+      updateTokenData({ vanityMint: null });
+      setPromo(null);
+      setPromoCode('');
 
+      const receipt = createLaunchReceipt({
+        result,
+        params: resume ? resume.params : tokenData,
+        cluster: settings,
+        walletAddress: publicKey.toBase58(),
+      });
+      saveLaunchReceipt(receipt);
       toast({
         title: "Success!",
-        description: `Token created successfully! Fee paid: ${result.feeAmount} SOL. Token address: ${result.tokenAddress}`,
+        description: `Token created successfully! Fee paid: ${formatFeePaid(receipt)}. Token address: ${result.tokenAddress}`,
       });
 
+      if (result.authorityStates) {
+        const allVerified = result.authorityStates.every(({ verified }) => verified);
+        toast({
+          title: allVerified ? "Authorities verified" : "Authority check failed",
+          description: summarizeAuthorityStates(result.authorityStates),
+          variant: allVerified ? "default" : "destructive"
+        });
+      }
+      navigate(`/launch/${result.tokenAddress}`);
     } catch (error) {
       console.error('Error:', error);
+      const creationError = toTokenCreationError(error);
+      // Once the mint may be on-chain, its key belongs to the saved launch and
+      // a new launch can't create the same account again.
+      const saved = resume ? null : loadLaunchCheckpoint(publicKey.toBase58());
+      if (saved && hasLaunchProgress(saved)) {
+        updateTokenData({ vanityMint: null });
+      }
+      // Shows the current amount to launch again with.
+      if (creationError.code === 'QUOTE_EXPIRED') {
+        refetchTokenFeeQuote();
+      }
+      setLaunchError(creationError);
+    } finally {
+      setIsCreating(false);
+      setUploadProgress(null);
+    }
+  };
+
+  const handleApplyPromo = async () => {
+    if (!publicKey) {
       toast({
         title: "Error",
-        description: error instanceof Error ? error.message : "Failed to create token",
+        description: "Connect your wallet to apply a promo code",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setIsApplyingPromo(true);
+    try {
+      const applied = await redeemPromoCode({
+        code: promoCode,
+        walletAddress: publicKey.toBase58(),
+        cluster,
+        launch: tokenData,
+      });
+      setPromo(applied);
+      toast({
+        title: "Promo code applied",
+        description: `${applied.code}: ${applied.description}`,
+      });
+    } catch (error) {
+      console.error('Error applying promo code:', error);
+      toast({
+        title: "Promo code not applied",
+        description: error instanceof Error ? error.message : "Failed to apply promo code",
         variant: "destructive"
       });
     } finally {
-      setIsCreating(false);
+      setIsApplyingPromo(false);
+    }
+  };
+
+  // A failed stage is retried by resuming, so stages that landed aren't sent again.
+  const handleRetryStage = () => {
+    if (pendingLaunch && hasLaunchProgress(pendingLaunch)) {
+      handleCreateToken(pendingLaunch);
+      return;
     }
+    handleCreateClick();
   };
 
-  const totalFee = calculateFees();
+  const handleCreateClick = () => {
+    if (cluster === 'mainnet-beta') {
+      setConfirmMainnet(true);
+      return;
+    }
+    handleCreateToken();
+  };
+
+  const serviceFeeLamports = sumQuoteLines(serviceFees);
+  // A token fee is only charged at an amount the user has seen.
+  const awaitingTokenFeeQuote = !!selectedFeeCurrency && serviceFeeLamports > 0 && !tokenFeeQuote;
+  const totalFee = selectedFeeCurrency && serviceFeeLamports > 0
+    ? tokenFeeQuote
+      ? formatTokenAmount(tokenFeeQuote.amount, tokenFeeQuote.decimals, tokenFeeQuote.symbol)
+      : `… ${selectedFeeCurrency.symbol}`
+    : formatLamports(serviceFeeLamports);
+  const metadataErrors = validateMetadataFields({ name: tokenData.name, symbol: tokenData.symbol });
+  const supplyError = validateSupply(tokenData.supply, tokenData.decimals).error;
+  const extensionErrors = validateExtensionSettings({
+    tokenProgram: tokenData.tokenProgram,
+    extensions: tokenData.extensions,
+    decimals: tokenData.decimals,
+    freezeAuthority: !!tokenData.authorities?.freezeAuthority,
+  });
+  const validationErrors = [
+    ...Object.values(metadataErrors),
+    ...(supplyError ? [supplyError] : []),
+    ...extensionErrors,
+  ];
 
   return (
     <div className="space-y-6">
@@ -164,7 +403,7 @@ const TokenCreationStep3 = ({ tokenData, updateTokenData }: TokenCreationStep3Pr
           <div className="flex items-center justify-between">
             <div>
               <h3 className="font-semibold">Creator Information</h3>
-              <p className="text-sm text-muted-foreground">Add your details as the creator (+0.1 SOL)</p>
+              <p className="text-sm text-muted-foreground">Add your details as the creator{feeHint(pricing.creatorMetadata)}</p>
             </div>
             <Switch
               checked={showCreatorInfo}
@@ -189,16 +428,28 @@ const TokenCreationStep3 = ({ tokenData, updateTokenData }: TokenCreationStep3Pr
           )}
         </div>
 
+        <TokenProgramSettings
+          tokenProgram={tokenData.tokenProgram}
+          extensions={tokenData.extensions}
+          metadataMode={tokenData.metadataMode}
+          updateTokenData={updateTokenData}
+        />
+
+        <VanityAddressSettings
+          vanityMint={tokenData.vanityMint}
+          updateTokenData={updateTokenData}
+        />
+
         <div className="bg-secondary/50 p-4 rounded-lg space-y-4">
           <div>
             <h3 className="font-semibold mb-2">Authority Settings</h3>
-            <p className="text-sm text-muted-foreground">Each authority costs +0.1 SOL</p>
+            <p className="text-sm text-muted-foreground">Retained authorities are charged as listed in the fee breakdown. Authorities left off are revoked at launch.</p>
           </div>
           <div className="space-y-4">
             <div className="flex items-center justify-between">
               <div>
                 <Label>Freeze Authority</Label>
-                <p className="text-sm text-muted-foreground">Ability to freeze token accounts</p>
+                <p className="text-sm text-muted-foreground">Ability to freeze token accounts (no freeze authority is set when off)</p>
               </div>
               <Switch
                 checked={tokenData.authorities?.freezeAuthority || false}
@@ -213,7 +464,7 @@ const TokenCreationStep3 = ({ tokenData, updateTokenData }: TokenCreationStep3Pr
             <div className="flex items-center justify-between">
               <div>
                 <Label>Mint Authority</Label>
-                <p className="text-sm text-muted-foreground">Ability to mint new tokens</p>
+                <p className="text-sm text-muted-foreground">Ability to mint new tokens (supply is fixed when off)</p>
               </div>
               <Switch
                 checked={tokenData.authorities?.mintAuthority || false}
@@ -228,7 +479,7 @@ const TokenCreationStep3 = ({ tokenData, updateTokenData }: TokenCreationStep3Pr
             <div className="flex items-center justify-between">
               <div>
                 <Label>Update Authority</Label>
-                <p className="text-sm text-muted-foreground">Ability to update token metadata</p>
+                <p className="text-sm text-muted-foreground">Ability to update token metadata (metadata is immutable when off)</p>
               </div>
               <Switch
                 checked={tokenData.authorities?.updateAuthority || false}
@@ -243,27 +494,169 @@ const TokenCreationStep3 = ({ tokenData, updateTokenData }: TokenCreationStep3Pr
           </div>
         </div>
 
+        <div className="bg-secondary/50 p-4 rounded-lg space-y-4">
+          <div>
+            <h3 className="font-semibold mb-2">Transaction Speed</h3>
+            <p className="text-sm text-muted-foreground">Higher priority fees land faster when the network is congested</p>
+          </div>
+          <RadioGroup
+            value={prioritySpeed}
+            onValueChange={(value: PrioritySpeed) => setPrioritySpeed(value)}
+            className="flex gap-6"
+          >
+            {PRIORITY_SPEEDS.map((speed) => (
+              <div key={speed} className="flex items-center gap-2">
+                <RadioGroupItem value={speed} id={`speed-${speed}`} />
+                <Label htmlFor={`speed-${speed}`}>{PRIORITY_SPEED_LABELS[speed]}</Label>
+              </div>
+            ))}
+          </RadioGroup>
+        </div>
+
+        {baseServiceFeeLamports > 0 && (
+          <div className="bg-secondary/50 p-4 rounded-lg space-y-4">
+            <h3 className="font-semibold mb-2">Promo Code</h3>
+            <div className="flex gap-2">
+              <Input
+                id="promoCode"
+                placeholder="Enter a promo code"
+                value={promoCode}
+                onChange={(e) => setPromoCode(e.target.value)}
+              />
+              <Button
+                variant="secondary"
+                onClick={handleApplyPromo}
+                disabled={isApplyingPromo || !promoCode.trim()}
+              >
+                {isApplyingPromo ? "Checking..." : "Apply"}
+              </Button>
+            </div>
+            {activePromo && (
+              <div className="flex items-center justify-between text-sm">
+                <p className="text-green-400">{activePromo.code} applied: {activePromo.description}</p>
+                <Button variant="ghost" size="sm" onClick={() => setPromo(null)}>Remove</Button>
+              </div>
+            )}
+            {promo && promoMismatch && (
+              <p className="text-sm text-muted-foreground">
+                {promo.code}: {promoMismatch}
+              </p>
+            )}
+          </div>
+        )}
+
+        {baseServiceFeeLamports > 0 && getFeeCurrencies(cluster).length > 0 && (
+          <div className="bg-secondary/50 p-4 rounded-lg space-y-4">
+            <div>
+              <h3 className="font-semibold mb-2">Fee Currency</h3>
+              <p className="text-sm text-muted-foreground">Pay the service fee in SOL or a stablecoin. Rent and network fees are always paid in SOL.</p>
+            </div>
+            <Select value={selectedFeeCurrency?.symbol ?? SOL_FEE_CURRENCY} onValueChange={setFeeCurrency}>
+              <SelectTrigger className="w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={SOL_FEE_CURRENCY}>SOL</SelectItem>
+                {getFeeCurrencies(cluster).map(({ symbol }) => (
+                  <SelectItem key={symbol} value={symbol}>{symbol}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {tokenFeeQuote && selectedFeeCurrency && (
+              <p className="text-sm text-muted-foreground">
+                {formatLamports(serviceFeeLamports)} at {tokenFeeQuote.solPrice} {tokenFeeQuote.symbol}/SOL ({tokenFeeQuote.priceSource} price)
+              </p>
+            )}
+          </div>
+        )}
+
         <div className="bg-secondary/50 p-4 rounded-lg">
           <h3 className="font-semibold mb-2">Fee Breakdown</h3>
           <div className="space-y-2">
-            <p>Base Fee: 0.05 SOL</p>
-            {tokenData.authorities?.freezeAuthority && <p>Freeze Authority: 0.1 SOL</p>}
-            {tokenData.authorities?.mintAuthority && <p>Mint Authority: 0.1 SOL</p>}
-            {tokenData.authorities?.updateAuthority && <p>Update Authority: 0.1 SOL</p>}
-            {tokenData.creatorName && <p>Creator Metadata: 0.1 SOL</p>}
+            {serviceFees.map(({ label, lamports }) => (
+              <p key={label}>{label}: {formatLamports(lamports)}</p>
+            ))}
             <div className="border-t border-gray-600 mt-2 pt-2">
-              <p className="font-bold">Total Fee: {totalFee} SOL</p>
+              <p className="font-bold">Service Fee: {totalFee}</p>
+              {referrer && referrer !== publicKey?.toBase58() && pricing.referralSharePercent > 0 && (
+                <p className="text-sm text-muted-foreground">
+                  {pricing.referralSharePercent}% goes to your referrer {referrer.slice(0, 4)}...{referrer.slice(-4)}
+                </p>
+              )}
             </div>
+            {quote ? (
+              <div className="text-sm text-muted-foreground space-y-1">
+                {quote.rent.map(({ label, lamports }) => (
+                  <p key={label}>{label}: {formatLamports(lamports)}</p>
+                ))}
+                {quote.networkFees.map(({ label, lamports }) => (
+                  <p key={label}>{label} (est.): {formatLamports(lamports)}</p>
+                ))}
+                <p className="font-semibold">
+                  Estimated Total: {selectedFeeCurrency && serviceFeeLamports > 0
+                    ? `${formatLamports(quote.totalLamports - quote.serviceFeeLamports)} + ${totalFee}`
+                    : formatLamports(quote.totalLamports)}
+                </p>
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground">Loading rent and network fees…</p>
+            )}
           </div>
         </div>
 
+        {validationErrors.length > 0 && (
+          <div className="border border-red-500/50 p-4 rounded-lg text-sm text-red-400 space-y-1">
+            {validationErrors.map((message) => (
+              <p key={message}>{message}</p>
+            ))}
+          </div>
+        )}
+
+        {uploadProgress && (
+          <div className="bg-secondary/50 p-4 rounded-lg space-y-2">
+            <div className="flex items-center justify-between text-sm">
+              <span>{UPLOAD_STAGE_LABELS[uploadProgress.stage]}</span>
+              <span className="text-muted-foreground">{Math.round((uploadProgress.loaded / uploadProgress.total) * 100)}%</span>
+            </div>
+            <Progress value={(uploadProgress.loaded / uploadProgress.total) * 100} className="h-2" />
+          </div>
+        )}
+
+        <LaunchTimeline steps={launchSteps} labels={LAUNCH_STAGE_LABELS} onRetry={handleRetryStage} retryDisabled={isCreating} />
+
+        {launchError && (
+          <LaunchErrorPanel
+            error={launchError}
+            walletAddress={publicKey?.toBase58()}
+            onRetry={handleCreateClick}
+            onResume={() => pendingLaunch && handleCreateToken(pendingLaunch)}
+            onDismiss={() => setLaunchError(null)}
+          />
+        )}
+
         <Button 
-          onClick={handleCreateToken} 
+          onClick={handleCreateClick} 
           className="w-full"
-          disabled={isCreating}
+          disabled={isCreating || awaitingTokenFeeQuote || validationErrors.length > 0}
         >
-          {isCreating ? "Creating Token..." : `Create Token (${totalFee} SOL)`}
+          {uploadProgress ? "Uploading Metadata..." : isCreating ? "Creating Token..." : `Create Token (${totalFee})`}
         </Button>
+
+        <AlertDialog open={confirmMainnet} onOpenChange={setConfirmMainnet}>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Launch on Mainnet?</AlertDialogTitle>
+              <AlertDialogDescription>
+                {tokenData.name} ({tokenData.symbol}) will be created on Solana Mainnet. This uses real SOL: a
+                {' '}{totalFee} service fee plus rent and network fees, and cannot be undone.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Cancel</AlertDialogCancel>
+              <AlertDialogAction onClick={() => handleCreateToken()}>Launch on Mainnet</AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
       </div>
     </div>
   );
@@ -0,0 +1,128 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import AssetDropzone from '@/components/AssetDropzone';
+import { useObjectUrl } from '@/hooks/use-object-url';
+import { MAX_UPLOAD_BYTES } from '@/lib/storage';
+import {
+  ANIMATED_LOGO_TYPES,
+  BANNER_TYPES,
+  MIN_BANNER_WIDTH,
+  extractFallbackFrame,
+  isVideo,
+  prepareBanner,
+  validateAnimatedLogo,
+} from '@/lib/token-media';
+
+interface TokenMediaData {
+  logo: File | null;
+  // Set when the logo was extracted from the animated logo, so it follows that file.
+  logoFromAnimation: boolean;
+  animatedLogo: File | null;
+  banner: File | null;
+}
+
+interface TokenMediaSettingsProps extends TokenMediaData {
+  updateTokenData: (data: Partial<TokenMediaData>) => void;
+}
+
+const formatFileSize = (file: File) => `${Math.ceil(file.size / 1024)} KB`;
+
+const TokenMediaSettings = ({ logo, logoFromAnimation, animatedLogo, banner, updateTokenData }: TokenMediaSettingsProps) => {
+  const animatedUrl = useObjectUrl(animatedLogo);
+  const bannerUrl = useObjectUrl(banner);
+  const [animatedError, setAnimatedError] = useState<string | null>(null);
+  const [bannerError, setBannerError] = useState<string | null>(null);
+  const [processing, setProcessing] = useState<'animated' | 'banner' | null>(null);
+
+  const handleAnimatedLogo = async (file: File) => {
+    setProcessing('animated');
+    setAnimatedError(null);
+    try {
+      const invalid = await validateAnimatedLogo(file);
+      if (invalid) {
+        setAnimatedError(invalid);
+        return;
+      }
+      // Wallets that can't play the animation show the static logo, taken
+      // from the first frame unless the user picked one.
+      updateTokenData(logo && !logoFromAnimation
+        ? { animatedLogo: file }
+        : { animatedLogo: file, logo: await extractFallbackFrame(file), logoFromAnimation: true });
+    } catch (error) {
+      setAnimatedError(error instanceof Error ? error.message : 'This file could not be read');
+    } finally {
+      setProcessing(null);
+    }
+  };
+
+  // A logo taken from the animation goes with it.
+  const handleRemoveAnimatedLogo = () =>
+    updateTokenData(logoFromAnimation ? { animatedLogo: null, logo: null, logoFromAnimation: false } : { animatedLogo: null });
+
+  const handleBanner = async (file: File) => {
+    setProcessing('banner');
+    setBannerError(null);
+    try {
+      updateTokenData({ banner: await prepareBanner(file) });
+    } catch (error) {
+      setBannerError(error instanceof Error ? error.message : 'This image could not be read');
+    } finally {
+      setProcessing(null);
+    }
+  };
+
+  return (
+    <>
+      <div>
+        <Label>Animated Logo (optional)</Label>
+        <AssetDropzone inputId="animated-logo-upload" accept={ANIMATED_LOGO_TYPES} onFile={handleAnimatedLogo}>
+          {animatedLogo && animatedUrl ? (
+            <div className="flex flex-col items-center">
+              {isVideo(animatedLogo) ? (
+                <video src={animatedUrl} className="w-24 h-24 rounded-full object-cover" autoPlay loop muted playsInline />
+              ) : (
+                <img src={animatedUrl} alt="Animated token logo" className="w-24 h-24 rounded-full object-cover" />
+              )}
+              <p className="text-sm text-emerald-400 mt-2">
+                Animated logo ready: {animatedLogo.name}, {formatFileSize(animatedLogo)}
+              </p>
+              <Button variant="ghost" size="sm" className="mt-2" onClick={handleRemoveAnimatedLogo}>
+                Remove
+              </Button>
+            </div>
+          ) : (
+            <div className="cursor-pointer" onClick={() => document.getElementById('animated-logo-upload')?.click()}>
+              <p className="text-gray-400">{processing === 'animated' ? 'Reading file…' : 'Click or drag to add a GIF, WebP or MP4'}</p>
+              <p className="text-gray-500 text-sm mt-1">Square, up to {MAX_UPLOAD_BYTES / 1024 / 1024} MB. The first frame becomes the static logo if you haven't set one.</p>
+            </div>
+          )}
+        </AssetDropzone>
+        {animatedError && <p className="text-sm text-red-400 mt-1">{animatedError}</p>}
+      </div>
+
+      <div>
+        <Label>Banner (optional)</Label>
+        <AssetDropzone inputId="banner-upload" accept={BANNER_TYPES} onFile={handleBanner}>
+          {banner && bannerUrl ? (
+            <div className="flex flex-col items-center">
+              <img src={bannerUrl} alt="Token banner" className="w-full max-h-40 rounded-lg object-cover" />
+              <p className="text-sm text-emerald-400 mt-2">Banner ready: {formatFileSize(banner)}</p>
+              <Button variant="ghost" size="sm" className="mt-2" onClick={() => updateTokenData({ banner: null })}>
+                Remove
+              </Button>
+            </div>
+          ) : (
+            <div className="cursor-pointer" onClick={() => document.getElementById('banner-upload')?.click()}>
+              <p className="text-gray-400">{processing === 'banner' ? 'Reading file…' : 'Click or drag to add a header banner'}</p>
+              <p className="text-gray-500 text-sm mt-1">PNG, JPEG or WebP, at least {MIN_BANNER_WIDTH}px wide. Recommended: 1500x500px</p>
+            </div>
+          )}
+        </AssetDropzone>
+        {bannerError && <p className="text-sm text-red-400 mt-1">{bannerError}</p>}
+      </div>
+    </>
+  );
+};
+
+export default TokenMediaSettings;
@@ -0,0 +1,210 @@
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  DEFAULT_EXTENSION_SETTINGS,
+  TOKEN_EXTENSION_KEYS,
+  TOKEN_EXTENSION_LABELS,
+  TokenExtensionKey,
+  TokenExtensionSettings,
+  TokenProgramChoice,
+} from '@/api/token-extensions';
+import { MetadataMode } from '@/api/mint-metadata';
+import { formatLamports, getExtensionFeeLamports } from '@/api/pricing';
+import { useCluster } from '@/hooks/use-cluster';
+
+interface TokenProgramSettingsProps {
+  tokenProgram: TokenProgramChoice;
+  extensions: TokenExtensionSettings;
+  metadataMode: MetadataMode;
+  updateTokenData: (data: Partial<{
+    tokenProgram: TokenProgramChoice;
+    extensions: TokenExtensionSettings;
+    metadataMode: MetadataMode;
+  }>) => void;
+}
+
+const EXTENSION_DESCRIPTIONS: Record<TokenExtensionKey, string> = {
+  transferFee: 'Withhold a percentage of every transfer, claimable by your wallet',
+  interestBearing: 'Display balances with continuously accruing interest',
+  nonTransferable: 'Soul-bound tokens that can never leave the holder\'s account',
+  permanentDelegate: 'An address that can transfer or burn tokens from any account',
+  defaultAccountState: 'Set the state new token accounts start in',
+  mintCloseAuthority: 'An address that can close the mint once supply is zero',
+};
+
+const TokenProgramSettings = ({ tokenProgram, extensions, metadataMode, updateTokenData }: TokenProgramSettingsProps) => {
+  const { cluster } = useCluster();
+
+  const updateExtension = <K extends TokenExtensionKey>(key: K, value: Partial<TokenExtensionSettings[K]>) => {
+    updateTokenData({
+      extensions: {
+        ...extensions,
+        [key]: { ...extensions[key], ...value },
+      },
+    });
+  };
+
+  const renderExtensionFields = (key: TokenExtensionKey) => {
+    switch (key) {
+      case 'transferFee':
+        return (
+          <div className="grid grid-cols-2 gap-4">
+            <div className="grid gap-2">
+              <Label htmlFor="transferFeeBasisPoints">Fee (basis points)</Label>
+              <Input
+                id="transferFeeBasisPoints"
+                type="number"
+                min="0"
+                max="10000"
+                value={extensions.transferFee.feeBasisPoints}
+                onChange={(e) => updateExtension('transferFee', { feeBasisPoints: parseInt(e.target.value) })}
+              />
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="transferFeeMax">Maximum fee (tokens)</Label>
+              <Input
+                id="transferFeeMax"
+                placeholder="1,000"
+                value={extensions.transferFee.maxFee}
+                onChange={(e) => updateExtension('transferFee', { maxFee: e.target.value })}
+              />
+            </div>
+          </div>
+        );
+      case 'interestBearing':
+        return (
+          <div className="grid gap-2">
+            <Label htmlFor="interestRate">Annual rate (basis points)</Label>
+            <Input
+              id="interestRate"
+              type="number"
+              value={extensions.interestBearing.rateBasisPoints}
+              onChange={(e) => updateExtension('interestBearing', { rateBasisPoints: parseInt(e.target.value) })}
+            />
+          </div>
+        );
+      case 'permanentDelegate':
+        return (
+          <div className="grid gap-2">
+            <Label htmlFor="permanentDelegate">Delegate address</Label>
+            <Input
+              id="permanentDelegate"
+              placeholder="Solana address"
+              value={extensions.permanentDelegate.delegate}
+              onChange={(e) => updateExtension('permanentDelegate', { delegate: e.target.value })}
+            />
+          </div>
+        );
+      case 'defaultAccountState':
+        return (
+          <div className="grid gap-2">
+            <Label>Initial account state</Label>
+            <Select
+              value={extensions.defaultAccountState.state}
+              onValueChange={(state: 'initialized' | 'frozen') => updateExtension('defaultAccountState', { state })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="frozen">Frozen</SelectItem>
+                <SelectItem value="initialized">Initialized</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        );
+      case 'mintCloseAuthority':
+        return (
+          <div className="grid gap-2">
+            <Label htmlFor="closeAuthority">Close authority address</Label>
+            <Input
+              id="closeAuthority"
+              placeholder="Solana address"
+              value={extensions.mintCloseAuthority.closeAuthority}
+              onChange={(e) => updateExtension('mintCloseAuthority', { closeAuthority: e.target.value })}
+            />
+          </div>
+        );
+      default:
+        return null;
+    }
+  };
+
+  return (
+    <div className="bg-secondary/50 p-4 rounded-lg space-y-4">
+      <div>
+        <h3 className="font-semibold mb-2">Token Program</h3>
+        <p className="text-sm text-muted-foreground">Token-2022 unlocks mint extensions</p>
+      </div>
+      <RadioGroup
+        value={tokenProgram}
+        onValueChange={(value: TokenProgramChoice) => updateTokenData({
+          tokenProgram: value,
+          extensions: value === 'token' ? DEFAULT_EXTENSION_SETTINGS : extensions,
+          metadataMode: value === 'token' ? 'metaplex' : metadataMode,
+        })}
+        className="flex gap-6"
+      >
+        <div className="flex items-center gap-2">
+          <RadioGroupItem value="token" id="program-token" />
+          <Label htmlFor="program-token">SPL Token</Label>
+        </div>
+        <div className="flex items-center gap-2">
+          <RadioGroupItem value="token-2022" id="program-token-2022" />
+          <Label htmlFor="program-token-2022">Token-2022</Label>
+        </div>
+      </RadioGroup>
+
+      {tokenProgram === 'token-2022' && (
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Metadata Storage</Label>
+            <RadioGroup
+              value={metadataMode}
+              onValueChange={(value: MetadataMode) => updateTokenData({ metadataMode: value })}
+              className="space-y-1"
+            >
+              <div className="flex items-center gap-2">
+                <RadioGroupItem value="metaplex" id="metadata-metaplex" />
+                <Label htmlFor="metadata-metaplex">Metaplex metadata account</Label>
+              </div>
+              <div className="flex items-center gap-2">
+                <RadioGroupItem value="token-2022" id="metadata-on-mint" />
+                <Label htmlFor="metadata-on-mint">On the mint (metadata pointer, includes social links)</Label>
+              </div>
+            </RadioGroup>
+          </div>
+          {TOKEN_EXTENSION_KEYS.map((key) => (
+            <div key={key} className="space-y-3">
+              <div className="flex items-center justify-between">
+                <div>
+                  <Label>
+                    {TOKEN_EXTENSION_LABELS[key]}
+                    {getExtensionFeeLamports(cluster, key) > 0 && ` (+${formatLamports(getExtensionFeeLamports(cluster, key))})`}
+                  </Label>
+                  <p className="text-sm text-muted-foreground">{EXTENSION_DESCRIPTIONS[key]}</p>
+                </div>
+                <Switch
+                  checked={extensions[key].enabled}
+                  onCheckedChange={(checked) => updateExtension(key, { enabled: checked })}
+                />
+              </div>
+              {extensions[key].enabled && renderExtensionFields(key)}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TokenProgramSettings;
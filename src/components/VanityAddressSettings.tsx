@@ -0,0 +1,131 @@
+import { useState } from 'react';
+import { Keypair } from '@solana/web3.js';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { Switch } from '@/components/ui/switch';
+import { useVanityGrinder } from '@/hooks/use-vanity-grinder';
+import { estimateVanityAttempts, formatDuration, validateVanityPattern } from '@/lib/vanity';
+
+interface VanityAddressSettingsProps {
+  vanityMint: Keypair | null;
+  updateTokenData: (data: Partial<{ vanityMint: Keypair | null }>) => void;
+}
+
+const VanityAddressSettings = ({ vanityMint, updateTokenData }: VanityAddressSettingsProps) => {
+  const [enabled, setEnabled] = useState(!!vanityMint);
+  const [prefix, setPrefix] = useState('');
+  const [suffix, setSuffix] = useState('');
+  const [caseSensitive, setCaseSensitive] = useState(false);
+  const grinder = useVanityGrinder({ onFound: (keypair) => updateTokenData({ vanityMint: keypair }) });
+
+  const pattern = { prefix, suffix, caseSensitive };
+  const errors = validateVanityPattern(pattern);
+  const expectedAttempts = estimateVanityAttempts(pattern);
+  const remainingSeconds = grinder.attemptsPerSecond > 0
+    ? Math.max(expectedAttempts - grinder.attempts, 0) / grinder.attemptsPerSecond
+    : Infinity;
+
+  return (
+    <div className="bg-secondary/50 p-4 rounded-lg space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="font-semibold">Vanity Address</h3>
+          <p className="text-sm text-muted-foreground">Grind a mint address that starts or ends with your text</p>
+        </div>
+        <Switch
+          checked={enabled}
+          onCheckedChange={(checked) => {
+            setEnabled(checked);
+            if (!checked) {
+              grinder.reset();
+              updateTokenData({ vanityMint: null });
+            }
+          }}
+        />
+      </div>
+
+      {enabled && (
+        vanityMint ? (
+          <div className="space-y-2">
+            <p className="text-sm text-emerald-400">Mint address found:</p>
+            <p className="font-mono text-sm break-all">{vanityMint.publicKey.toBase58()}</p>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => {
+                grinder.reset();
+                updateTokenData({ vanityMint: null });
+              }}
+            >
+              Choose another
+            </Button>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="grid gap-2">
+                <Label htmlFor="vanityPrefix">Prefix</Label>
+                <Input
+                  id="vanityPrefix"
+                  placeholder="e.g. MEME"
+                  value={prefix}
+                  disabled={grinder.status === 'running'}
+                  onChange={(e) => setPrefix(e.target.value.trim())}
+                />
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="vanitySuffix">Suffix</Label>
+                <Input
+                  id="vanitySuffix"
+                  placeholder="e.g. pump"
+                  value={suffix}
+                  disabled={grinder.status === 'running'}
+                  onChange={(e) => setSuffix(e.target.value.trim())}
+                />
+              </div>
+            </div>
+            <div className="flex items-center gap-2">
+              <Switch
+                id="vanityCaseSensitive"
+                checked={caseSensitive}
+                disabled={grinder.status === 'running'}
+                onCheckedChange={setCaseSensitive}
+              />
+              <Label htmlFor="vanityCaseSensitive">Case-sensitive</Label>
+            </div>
+
+            {(prefix || suffix) && errors.length > 0 ? (
+              <div className="text-sm text-red-400 space-y-1">
+                {errors.map((message) => <p key={message}>{message}</p>)}
+              </div>
+            ) : (prefix || suffix) && (
+              <p className="text-sm text-muted-foreground">
+                Difficulty: about 1 in {Math.round(expectedAttempts).toLocaleString()} addresses
+              </p>
+            )}
+
+            {grinder.status === 'running' ? (
+              <div className="space-y-2">
+                <Progress value={Math.min((grinder.attempts / expectedAttempts) * 100, 99)} />
+                <p className="text-sm text-muted-foreground">
+                  {grinder.attempts.toLocaleString()} attempts · {Math.round(grinder.attemptsPerSecond).toLocaleString()}/s · ETA {formatDuration(remainingSeconds)}
+                </p>
+                <Button variant="outline" size="sm" onClick={grinder.cancel}>
+                  Cancel
+                </Button>
+              </div>
+            ) : (
+              <Button size="sm" disabled={errors.length > 0} onClick={() => grinder.start(pattern)}>
+                {grinder.status === 'cancelled' ? 'Restart search' : 'Start search'}
+              </Button>
+            )}
+          </div>
+        )
+      )}
+    </div>
+  );
+};
+
+export default VanityAddressSettings;
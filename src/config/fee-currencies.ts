@@ -0,0 +1,40 @@
+import type { ClusterId } from '@/lib/clusters';
+import type { TokenProgramChoice } from '@/api/token-extensions';
+
+// SPL tokens the service fee can be paid in, besides SOL.
+export interface FeeCurrency {
+  symbol: string;
+  mint: string;
+  decimals: number;
+  tokenProgram: TokenProgramChoice;
+}
+
+const USDC: FeeCurrency = {
+  symbol: 'USDC',
+  mint: 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v',
+  decimals: 6,
+  tokenProgram: 'token',
+};
+
+const USDT: FeeCurrency = {
+  symbol: 'USDT',
+  mint: 'Es9vMFrzaCERmJfrF4H2FYD4KCoNkY11McCe8BenwNYB',
+  decimals: 6,
+  tokenProgram: 'token',
+};
+
+export const FEE_CURRENCIES: Record<ClusterId, FeeCurrency[]> = {
+  'mainnet-beta': [USDC, USDT],
+  // Test clusters charge no service fee, so there is nothing to pay in tokens.
+  devnet: [],
+  testnet: [],
+  localnet: [],
+  // A custom RPC could be any network, so mainnet mints can't be assumed to exist there.
+  custom: [],
+};
+
+// Units of each token one SOL buys, used when no price feed is configured.
+export const STATIC_SOL_PRICES: Record<string, number> = {
+  USDC: 150,
+  USDT: 150,
+};
@@ -0,0 +1,65 @@
+import type { ClusterId } from '@/lib/clusters';
+import type { TokenExtensionKey } from '@/api/token-extensions';
+
+// Service fees in SOL, per cluster. Everything a launch is charged by this
+// app comes from here; rent and network fees are quoted live.
+export interface PricingSchedule {
+  baseFee: number;
+  authorities: {
+    freezeAuthority: number;
+    mintAuthority: number;
+    updateAuthority: number;
+  };
+  creatorMetadata: number;
+  extensions: Record<TokenExtensionKey, number>;
+  // Share of the service fee paid to the wallet that referred the launch.
+  referralSharePercent: number;
+}
+
+const MAINNET_PRICING: PricingSchedule = {
+  baseFee: 0.05,
+  authorities: {
+    freezeAuthority: 0.1,
+    mintAuthority: 0.1,
+    updateAuthority: 0.1,
+  },
+  creatorMetadata: 0.1,
+  extensions: {
+    transferFee: 0.1,
+    interestBearing: 0.1,
+    nonTransferable: 0.1,
+    permanentDelegate: 0.1,
+    defaultAccountState: 0.1,
+    mintCloseAuthority: 0.1,
+  },
+  referralSharePercent: 20,
+};
+
+const FREE_PRICING: PricingSchedule = {
+  baseFee: 0,
+  authorities: {
+    freezeAuthority: 0,
+    mintAuthority: 0,
+    updateAuthority: 0,
+  },
+  creatorMetadata: 0,
+  extensions: {
+    transferFee: 0,
+    interestBearing: 0,
+    nonTransferable: 0,
+    permanentDelegate: 0,
+    defaultAccountState: 0,
+    mintCloseAuthority: 0,
+  },
+  referralSharePercent: 0,
+};
+
+// Test clusters are free so launches can be rehearsed. A custom RPC may point
+// at mainnet, so it is priced like mainnet.
+export const PRICING_CONFIG: Record<ClusterId, PricingSchedule> = {
+  'mainnet-beta': MAINNET_PRICING,
+  devnet: FREE_PRICING,
+  testnet: FREE_PRICING,
+  localnet: FREE_PRICING,
+  custom: MAINNET_PRICING,
+};
@@ -0,0 +1,25 @@
+import * as React from "react"
+import {
+  ClusterId,
+  ClusterSettings,
+  DEFAULT_CLUSTER_SETTINGS,
+  getClusterEndpoint,
+} from "@/lib/clusters"
+
+export interface ClusterContextValue {
+  cluster: ClusterId
+  settings: ClusterSettings
+  endpoint: string
+  setCluster: (settings: ClusterSettings) => void
+}
+
+export const ClusterContext = React.createContext<ClusterContextValue>({
+  cluster: DEFAULT_CLUSTER_SETTINGS.id,
+  settings: DEFAULT_CLUSTER_SETTINGS,
+  endpoint: getClusterEndpoint(DEFAULT_CLUSTER_SETTINGS),
+  setCluster: () => {},
+})
+
+export function useCluster() {
+  return React.useContext(ClusterContext)
+}
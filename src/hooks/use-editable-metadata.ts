@@ -0,0 +1,17 @@
+import { useQuery } from "@tanstack/react-query"
+import { useConnection } from "@solana/wallet-adapter-react"
+import { PublicKey } from "@solana/web3.js"
+import { fetchEditableMetadata } from "@/api/token-metadata"
+import { MetadataMode, fetchEditableOnMintMetadata } from "@/api/mint-metadata"
+
+export function useEditableMetadata(mintAddress: string | undefined, source: MetadataMode) {
+  const { connection } = useConnection()
+
+  return useQuery({
+    queryKey: ["editable-metadata", connection.rpcEndpoint, mintAddress, source],
+    queryFn: async () => source === "token-2022"
+      ? await fetchEditableOnMintMetadata(connection, new PublicKey(mintAddress!))
+      : await fetchEditableMetadata(connection, new PublicKey(mintAddress!)),
+    enabled: !!mintAddress,
+  })
+}
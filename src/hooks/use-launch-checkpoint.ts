@@ -0,0 +1,25 @@
+import * as React from "react"
+import {
+  LAUNCH_CHECKPOINT_EVENT,
+  LaunchCheckpoint,
+  loadLaunchCheckpoint,
+} from "@/lib/launch-checkpoint"
+
+export function useLaunchCheckpoint(walletAddress: string | undefined) {
+  const [checkpoint, setCheckpoint] = React.useState<LaunchCheckpoint | null>(null)
+
+  React.useEffect(() => {
+    const refresh = () => {
+      setCheckpoint(walletAddress ? loadLaunchCheckpoint(walletAddress) : null)
+    }
+    refresh()
+    window.addEventListener(LAUNCH_CHECKPOINT_EVENT, refresh)
+    window.addEventListener("storage", refresh)
+    return () => {
+      window.removeEventListener(LAUNCH_CHECKPOINT_EVENT, refresh)
+      window.removeEventListener("storage", refresh)
+    }
+  }, [walletAddress])
+
+  return checkpoint
+}
@@ -0,0 +1,53 @@
+import { useQuery } from "@tanstack/react-query"
+import { useConnection } from "@solana/wallet-adapter-react"
+import { TokenLaunchParams } from "@/api/create-token"
+import { getAdditionalMetadataFields } from "@/api/mint-metadata"
+import { PrioritySpeed } from "@/api/priority-fees"
+import {
+  ESTIMATED_LAUNCH_SIGNATURES,
+  LAMPORTS_PER_SIGNATURE,
+  applyPromoDiscount,
+  buildLaunchQuote,
+  getLaunchRent,
+  getServiceFeeLines,
+} from "@/api/pricing"
+import { getEnabledExtensions } from "@/api/token-extensions"
+import { PLACEHOLDER_METADATA_URI } from "@/api/metadata-storage"
+import { AppliedPromo } from "@/lib/promo-codes"
+import { useCluster } from "@/hooks/use-cluster"
+import { usePriorityFeeEstimate } from "@/hooks/use-priority-fee"
+
+// Quotes a launch before it is built. The service fee is known right away;
+// the full quote follows once live rent and priority fees have loaded.
+export function useLaunchQuote(launch: TokenLaunchParams, speed: PrioritySpeed, promo?: AppliedPromo | null) {
+  const { connection } = useConnection()
+  const { cluster } = useCluster()
+  const { data: priorityFeeLamports } = usePriorityFeeEstimate(speed)
+
+  const extensions = getEnabledExtensions(launch.tokenProgram, launch.extensions)
+  const onMintMetadata = launch.tokenProgram === "token-2022" && launch.metadataMode === "token-2022"
+    ? {
+        name: launch.name,
+        symbol: launch.symbol,
+        uri: launch.uri ?? PLACEHOLDER_METADATA_URI,
+        additionalFields: getAdditionalMetadataFields(launch),
+      }
+    : null
+
+  const { data: rent } = useQuery({
+    queryKey: ["launch-rent", connection.rpcEndpoint, launch.tokenProgram, extensions, onMintMetadata],
+    queryFn: () => getLaunchRent(connection, { tokenProgram: launch.tokenProgram, extensions, onMintMetadata }),
+  })
+
+  const serviceFees = applyPromoDiscount(getServiceFeeLines(cluster, launch), promo)
+  const quote = rent && priorityFeeLamports !== undefined
+    ? buildLaunchQuote({
+        serviceFees,
+        rent,
+        transactionFeeLamports: ESTIMATED_LAUNCH_SIGNATURES * LAMPORTS_PER_SIGNATURE,
+        priorityFeeLamports,
+      })
+    : null
+
+  return { serviceFees, quote }
+}
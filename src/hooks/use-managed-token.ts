@@ -0,0 +1,18 @@
+import { useQuery } from "@tanstack/react-query"
+import { useConnection } from "@solana/wallet-adapter-react"
+import { PublicKey } from "@solana/web3.js"
+import { fetchToken } from "@/api/my-tokens"
+import { fetchOwnTokenBalance } from "@/api/token-management"
+
+export function useManagedToken(mintAddress: string | undefined, owner: PublicKey | null) {
+  const { connection } = useConnection()
+
+  return useQuery({
+    queryKey: ["managed-token", connection.rpcEndpoint, mintAddress, owner?.toBase58()],
+    queryFn: async () => {
+      const token = await fetchToken(connection, new PublicKey(mintAddress!), owner!)
+      return token ? { token, balance: await fetchOwnTokenBalance(connection, token, owner!) } : null
+    },
+    enabled: !!mintAddress && !!owner,
+  })
+}
@@ -0,0 +1,22 @@
+import { useQuery } from "@tanstack/react-query"
+import { useConnection } from "@solana/wallet-adapter-react"
+import { PublicKey } from "@solana/web3.js"
+import { fetchOwnedTokens } from "@/api/my-tokens"
+import { useCluster } from "@/hooks/use-cluster"
+import { listLaunchReceipts } from "@/lib/launch-receipts"
+
+export function useOwnedTokens(owner: PublicKey | null) {
+  const { connection } = useConnection()
+  const { cluster } = useCluster()
+
+  return useQuery({
+    queryKey: ["owned-tokens", connection.rpcEndpoint, owner?.toBase58()],
+    queryFn: () => {
+      const knownMints = listLaunchReceipts()
+        .filter((receipt) => receipt.cluster.id === cluster && receipt.walletAddress === owner!.toBase58())
+        .map(({ mintAddress }) => mintAddress)
+      return fetchOwnedTokens(connection, owner!, knownMints)
+    },
+    enabled: !!owner,
+  })
+}
@@ -0,0 +1,23 @@
+import { useQuery } from "@tanstack/react-query"
+import { useConnection } from "@solana/wallet-adapter-react"
+import {
+  ESTIMATED_LAUNCH_COMPUTE_UNITS,
+  PrioritySpeed,
+  getPriorityFeeLamports,
+  getPriorityFeeMicroLamports,
+} from "@/api/priority-fees"
+
+// Estimates the priority fee of a launch, in lamports, from cluster-wide
+// recent fees. The launch itself re-quotes against the accounts it writes.
+export function usePriorityFeeEstimate(speed: PrioritySpeed) {
+  const { connection } = useConnection()
+
+  return useQuery({
+    queryKey: ["priority-fee", connection.rpcEndpoint, speed],
+    queryFn: async () => {
+      const microLamports = await getPriorityFeeMicroLamports(connection, [], speed)
+      return getPriorityFeeLamports(ESTIMATED_LAUNCH_COMPUTE_UNITS, microLamports)
+    },
+    refetchInterval: 30_000,
+  })
+}
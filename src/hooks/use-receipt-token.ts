@@ -0,0 +1,16 @@
+import { useQuery } from "@tanstack/react-query"
+import { Connection, PublicKey } from "@solana/web3.js"
+import { fetchToken } from "@/api/my-tokens"
+import { ClusterSettings, getClusterEndpoint } from "@/lib/clusters"
+
+// Reads a launched mint from the network it was launched on, which a shared
+// receipt can name independently of the viewer's selected cluster.
+export function useReceiptToken(mintAddress: string, cluster: ClusterSettings) {
+  const endpoint = getClusterEndpoint(cluster)
+
+  return useQuery({
+    queryKey: ["receipt-token", endpoint, mintAddress],
+    queryFn: () => fetchToken(new Connection(endpoint, "confirmed"), new PublicKey(mintAddress)),
+    enabled: !!mintAddress && !!endpoint,
+  })
+}
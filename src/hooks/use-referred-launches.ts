@@ -0,0 +1,14 @@
+import { useQuery } from "@tanstack/react-query"
+import { useConnection } from "@solana/wallet-adapter-react"
+import { PublicKey } from "@solana/web3.js"
+import { fetchReferredLaunches } from "@/api/referrals"
+
+export function useReferredLaunches(referrer: PublicKey | null) {
+  const { connection } = useConnection()
+
+  return useQuery({
+    queryKey: ["referred-launches", connection.rpcEndpoint, referrer?.toBase58()],
+    queryFn: () => fetchReferredLaunches(connection, referrer!),
+    enabled: !!referrer,
+  })
+}
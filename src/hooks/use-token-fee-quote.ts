@@ -0,0 +1,13 @@
+import { useQuery } from "@tanstack/react-query"
+import { quoteTokenFee } from "@/api/fee-payment"
+import { FeeCurrency } from "@/config/fee-currencies"
+
+// Converts the service fee into the selected SPL token. Disabled for SOL.
+export function useTokenFeeQuote(currency: FeeCurrency | null, lamports: number) {
+  return useQuery({
+    queryKey: ["token-fee-quote", currency?.mint, lamports],
+    queryFn: () => quoteTokenFee(currency!, lamports),
+    enabled: !!currency && lamports > 0,
+    refetchInterval: 60_000,
+  })
+}
@@ -0,0 +1,94 @@
+import * as React from "react"
+import { Keypair } from "@solana/web3.js"
+import { VanityPattern, VanityWorkerMessage, VanityWorkerRequest } from "@/lib/vanity"
+
+const REPORT_EVERY = 500
+const RATE_WINDOW_MS = 1000
+
+type GrinderStatus = "idle" | "running" | "found" | "cancelled"
+
+interface VanityGrinderOptions {
+  // Called once with the keypair a search finds.
+  onFound?: (keypair: Keypair) => void
+}
+
+export function useVanityGrinder({ onFound }: VanityGrinderOptions = {}) {
+  const workersRef = React.useRef<Worker[]>([])
+  const [status, setStatus] = React.useState<GrinderStatus>("idle")
+  const [attempts, setAttempts] = React.useState(0)
+  const [attemptsPerSecond, setAttemptsPerSecond] = React.useState(0)
+  const [keypair, setKeypair] = React.useState<Keypair | null>(null)
+  const attemptsRef = React.useRef(0)
+
+  const stopWorkers = React.useCallback(() => {
+    workersRef.current.forEach((worker) => worker.terminate())
+    workersRef.current = []
+  }, [])
+
+  const start = React.useCallback((pattern: VanityPattern) => {
+    stopWorkers()
+    attemptsRef.current = 0
+    setAttempts(0)
+    setAttemptsPerSecond(0)
+    setKeypair(null)
+    setStatus("running")
+
+    // Leave one core for the page itself.
+    const poolSize = Math.max(1, (navigator.hardwareConcurrency || 2) - 1)
+    const request: VanityWorkerRequest = { ...pattern, reportEvery: REPORT_EVERY }
+
+    for (let i = 0; i < poolSize; i++) {
+      const worker = new Worker(new URL("../workers/vanity-grinder.worker.ts", import.meta.url), { type: "module" })
+      worker.onmessage = (event: MessageEvent<VanityWorkerMessage>) => {
+        // Messages a stopped worker had already posted, e.g. a second match.
+        if (!workersRef.current.includes(worker)) {
+          return
+        }
+        attemptsRef.current += event.data.attempts
+        if (event.data.type === "found") {
+          stopWorkers()
+          const found = Keypair.fromSecretKey(Uint8Array.from(event.data.secretKey))
+          setAttempts(attemptsRef.current)
+          setKeypair(found)
+          setStatus("found")
+          onFound?.(found)
+        }
+      }
+      worker.postMessage(request)
+      workersRef.current.push(worker)
+    }
+  }, [stopWorkers, onFound])
+
+  const cancel = React.useCallback(() => {
+    stopWorkers()
+    setStatus("cancelled")
+  }, [stopWorkers])
+
+  const reset = React.useCallback(() => {
+    stopWorkers()
+    setKeypair(null)
+    setAttempts(0)
+    setAttemptsPerSecond(0)
+    setStatus("idle")
+  }, [stopWorkers])
+
+  // Progress messages arrive many times a second; sample them instead of
+  // re-rendering on each one.
+  React.useEffect(() => {
+    if (status !== "running") {
+      return
+    }
+    let previous = attemptsRef.current
+    const interval = setInterval(() => {
+      const current = attemptsRef.current
+      setAttempts(current)
+      setAttemptsPerSecond(((current - previous) * 1000) / RATE_WINDOW_MS)
+      previous = current
+    }, RATE_WINDOW_MS)
+    return () => clearInterval(interval)
+  }, [status])
+
+  React.useEffect(() => stopWorkers, [stopWorkers])
+
+  return { status, attempts, attemptsPerSecond, keypair, start, cancel, reset }
+}
@@ -0,0 +1,83 @@
+import { clusterApiUrl } from '@solana/web3.js';
+
+export type ClusterId = 'mainnet-beta' | 'devnet' | 'testnet' | 'localnet' | 'custom';
+
+export interface ClusterSettings {
+  id: ClusterId;
+  customUrl: string;
+}
+
+export const CLUSTER_IDS: ClusterId[] = ['mainnet-beta', 'devnet', 'testnet', 'localnet', 'custom'];
+
+export const CLUSTER_LABELS: Record<ClusterId, string> = {
+  'mainnet-beta': 'Mainnet',
+  devnet: 'Devnet',
+  testnet: 'Testnet',
+  localnet: 'Localnet',
+  custom: 'Custom RPC',
+};
+
+export const DEFAULT_CLUSTER_SETTINGS: ClusterSettings = { id: 'mainnet-beta', customUrl: '' };
+
+const CLUSTER_STORAGE_KEY = 'solana-cluster';
+const LOCALNET_URL = 'http://127.0.0.1:8899';
+
+const QUICKNODE_ENDPOINT = import.meta.env.VITE_QUICKNODE_ENDPOINT;
+
+export const getFormattedEndpoint = (endpoint: string) =>
+  !endpoint.startsWith('http://') && !endpoint.startsWith('https://')
+    ? `https://${endpoint}`
+    : endpoint;
+
+export const isValidRpcUrl = (url: string) => {
+  try {
+    const { protocol } = new URL(url);
+    return protocol === 'http:' || protocol === 'https:';
+  } catch {
+    return false;
+  }
+};
+
+// Mainnet goes through QuickNode when it is configured; the public endpoint is
+// heavily rate limited.
+export const getClusterEndpoint = ({ id, customUrl }: ClusterSettings) => {
+  switch (id) {
+    case 'mainnet-beta':
+      return QUICKNODE_ENDPOINT ? getFormattedEndpoint(QUICKNODE_ENDPOINT) : clusterApiUrl('mainnet-beta');
+    case 'devnet':
+    case 'testnet':
+      return clusterApiUrl(id);
+    case 'localnet':
+      return LOCALNET_URL;
+    case 'custom':
+      return customUrl;
+  }
+};
+
+export const loadClusterSettings = (): ClusterSettings => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(CLUSTER_STORAGE_KEY) ?? 'null') as ClusterSettings | null;
+    if (saved && CLUSTER_IDS.includes(saved.id) && (saved.id !== 'custom' || isValidRpcUrl(saved.customUrl))) {
+      return saved;
+    }
+  } catch (error) {
+    console.error('Ignoring unreadable cluster settings:', error);
+  }
+  return DEFAULT_CLUSTER_SETTINGS;
+};
+
+export const saveClusterSettings = (settings: ClusterSettings) => {
+  localStorage.setItem(CLUSTER_STORAGE_KEY, JSON.stringify(settings));
+};
+
+/** Links a path such as `/tx/<signature>` or `/address/<mint>` on Solana Explorer for the cluster. */
+export const getExplorerUrl = (path: string, settings: ClusterSettings) => {
+  const url = new URL(path, 'https://explorer.solana.com');
+  if (settings.id === 'devnet' || settings.id === 'testnet') {
+    url.searchParams.set('cluster', settings.id);
+  } else if (settings.id !== 'mainnet-beta') {
+    url.searchParams.set('cluster', 'custom');
+    url.searchParams.set('customUrl', getClusterEndpoint(settings));
+  }
+  return url.toString();
+};
@@ -0,0 +1,162 @@
+import { Keypair, PublicKey } from '@solana/web3.js';
+import { Buffer } from 'buffer';
+import type { TokenLaunchParams } from '@/api/create-token';
+import type { ClusterId } from '@/lib/clusters';
+import type { AppliedPromo } from '@/lib/promo-codes';
+import type { TokenFeePayment } from '@/api/fee-payment';
+
+export type LaunchStage = 'mint' | 'metadata' | 'supply' | 'fee';
+
+export const LAUNCH_STAGES: LaunchStage[] = ['mint', 'metadata', 'supply', 'fee'];
+
+export const LAUNCH_STAGE_LABELS: Record<LaunchStage, string> = {
+  mint: 'Mint created',
+  metadata: 'Metadata written',
+  supply: 'Supply minted',
+  fee: 'Fee paid',
+};
+
+export interface LaunchCheckpointTransaction {
+  signature: string;
+  stages: LaunchStage[];
+  lastValidBlockHeight: number;
+  status: 'pending' | 'confirmed' | 'failed';
+}
+
+export interface LaunchCheckpoint {
+  version: 1;
+  walletAddress: string;
+  cluster?: ClusterId;
+  mintAddress: string;
+  encryptedMintKey: {
+    iv: string;
+    ciphertext: string;
+  };
+  params: TokenLaunchParams;
+  feeAmount: number;
+  // Set when the fee is paid in an SPL token instead of SOL.
+  feePayment?: TokenFeePayment;
+  promo?: AppliedPromo;
+  referrer?: string;
+  completedStages: LaunchStage[];
+  transactions: LaunchCheckpointTransaction[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+export const LAUNCH_CHECKPOINT_EVENT = 'token-launch-checkpoint-change';
+
+const CHECKPOINT_STORAGE_PREFIX = 'token-launch-checkpoint:';
+const KEY_DB_NAME = 'token-launch';
+const KEY_STORE_NAME = 'keys';
+const CHECKPOINT_KEY_ID = 'checkpoint-key';
+
+const storageKey = (walletAddress: string) => `${CHECKPOINT_STORAGE_PREFIX}${walletAddress}`;
+
+const requestToPromise = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const openKeyStore = () => {
+  const request = indexedDB.open(KEY_DB_NAME, 1);
+  request.onupgradeneeded = () => {
+    request.result.createObjectStore(KEY_STORE_NAME);
+  };
+  return requestToPromise(request);
+};
+
+// The AES key is non-extractable and lives in IndexedDB, so the mint secret
+// never sits in local storage in the clear.
+const getCheckpointKey = async () => {
+  const db = await openKeyStore();
+  try {
+    const existing = await requestToPromise<CryptoKey | undefined>(
+      db.transaction(KEY_STORE_NAME).objectStore(KEY_STORE_NAME).get(CHECKPOINT_KEY_ID)
+    );
+    if (existing) {
+      return existing;
+    }
+
+    const key = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, false, ['encrypt', 'decrypt']);
+    await requestToPromise(
+      db.transaction(KEY_STORE_NAME, 'readwrite').objectStore(KEY_STORE_NAME).put(key, CHECKPOINT_KEY_ID)
+    );
+    return key;
+  } finally {
+    db.close();
+  }
+};
+
+export const encryptMintKeypair = async (keypair: Keypair): Promise<LaunchCheckpoint['encryptedMintKey']> => {
+  const key = await getCheckpointKey();
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv, additionalData: keypair.publicKey.toBytes() },
+    key,
+    keypair.secretKey
+  );
+
+  return {
+    iv: Buffer.from(iv).toString('base64'),
+    ciphertext: Buffer.from(ciphertext).toString('base64'),
+  };
+};
+
+export const decryptMintKeypair = async (checkpoint: LaunchCheckpoint) => {
+  const key = await getCheckpointKey();
+  const keypair = Keypair.fromSecretKey(
+    new Uint8Array(
+      await crypto.subtle.decrypt(
+        {
+          name: 'AES-GCM',
+          iv: Buffer.from(checkpoint.encryptedMintKey.iv, 'base64'),
+          additionalData: new PublicKey(checkpoint.mintAddress).toBytes(),
+        },
+        key,
+        Buffer.from(checkpoint.encryptedMintKey.ciphertext, 'base64')
+      )
+    )
+  );
+
+  if (keypair.publicKey.toBase58() !== checkpoint.mintAddress) {
+    throw new Error('Saved mint key does not match the launch checkpoint');
+  }
+  return keypair;
+};
+
+export const loadLaunchCheckpoint = (walletAddress: string): LaunchCheckpoint | null => {
+  const raw = localStorage.getItem(storageKey(walletAddress));
+  if (!raw) {
+    return null;
+  }
+
+  try {
+    const checkpoint = JSON.parse(raw) as LaunchCheckpoint;
+    return checkpoint.version === 1 ? checkpoint : null;
+  } catch (error) {
+    console.error('Discarding unreadable launch checkpoint:', error);
+    return null;
+  }
+};
+
+export const saveLaunchCheckpoint = (checkpoint: LaunchCheckpoint) => {
+  checkpoint.updatedAt = Date.now();
+  localStorage.setItem(storageKey(checkpoint.walletAddress), JSON.stringify(checkpoint));
+  window.dispatchEvent(new Event(LAUNCH_CHECKPOINT_EVENT));
+};
+
+export const clearLaunchCheckpoint = (walletAddress: string) => {
+  localStorage.removeItem(storageKey(walletAddress));
+  window.dispatchEvent(new Event(LAUNCH_CHECKPOINT_EVENT));
+};
+
+export const getLastCompletedStage = (checkpoint: LaunchCheckpoint) =>
+  [...LAUNCH_STAGES].reverse().find((stage) => checkpoint.completedStages.includes(stage)) ?? null;
+
+// A checkpoint only matters once something may have reached the chain; before
+// that it can be overwritten by a fresh launch without losing anything.
+export const hasLaunchProgress = (checkpoint: LaunchCheckpoint) =>
+  checkpoint.completedStages.length > 0 ||
+  checkpoint.transactions.some(({ status }) => status !== 'failed');
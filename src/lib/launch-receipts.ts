@@ -0,0 +1,117 @@
+import type { TokenLaunchParams, createToken } from '@/api/create-token';
+import type { AuthorityState } from '@/api/launch-verification';
+import type { TokenProgramChoice } from '@/api/token-extensions';
+import { formatTokenAmount } from '@/api/fee-payment';
+import type { ClusterId, ClusterSettings } from '@/lib/clusters';
+
+/** What a finished launch produced, kept on the device that launched it. */
+export interface LaunchReceipt {
+  version: 1;
+  mintAddress: string;
+  metadataAddress: string;
+  // Custom RPC URLs are included so explorer links keep working when shared.
+  cluster: ClusterSettings;
+  walletAddress: string;
+  name: string;
+  symbol: string;
+  supply: string;
+  decimals: number;
+  tokenProgram: TokenProgramChoice;
+  // Formatted, e.g. "0.25 SOL" or "37.5 USDC".
+  feePaid: string;
+  feeTransaction?: string;
+  // Whether the fee API confirmed the fee on-chain; null where it couldn't check.
+  feeVerified?: boolean | null;
+  signatures: string[];
+  authorityStates: AuthorityState[] | null;
+  createdAt: number;
+}
+
+const RECEIPT_STORAGE_PREFIX = 'token-launch-receipt:';
+// Share links carry only the mint, and its network when that's a public one:
+// anything else in a link could be edited, so the page reads it from the chain.
+const RECEIPT_CLUSTER_KEY = 'cluster';
+const PUBLIC_CLUSTERS: ClusterId[] = ['mainnet-beta', 'devnet', 'testnet'];
+
+const storageKey = (mintAddress: string) => `${RECEIPT_STORAGE_PREFIX}${mintAddress}`;
+
+const isLaunchReceipt = (value: unknown, mintAddress: string): value is LaunchReceipt =>
+  typeof value === 'object' && value !== null
+  && (value as LaunchReceipt).version === 1
+  && (value as LaunchReceipt).mintAddress === mintAddress;
+
+export const saveLaunchReceipt = (receipt: LaunchReceipt) => {
+  localStorage.setItem(storageKey(receipt.mintAddress), JSON.stringify(receipt));
+};
+
+export const loadLaunchReceipt = (mintAddress: string): LaunchReceipt | null => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(storageKey(mintAddress)) ?? 'null');
+    return isLaunchReceipt(saved, mintAddress) ? saved : null;
+  } catch (error) {
+    console.error('Ignoring unreadable launch receipt:', error);
+    return null;
+  }
+};
+
+/** Receipts saved on this device, newest first. */
+export const listLaunchReceipts = () =>
+  Object.keys(localStorage)
+    .filter((key) => key.startsWith(RECEIPT_STORAGE_PREFIX))
+    .map((key) => loadLaunchReceipt(key.slice(RECEIPT_STORAGE_PREFIX.length)))
+    .filter((receipt): receipt is LaunchReceipt => receipt !== null)
+    .sort((a, b) => b.createdAt - a.createdAt);
+
+export const createLaunchReceipt = ({
+  result,
+  params,
+  cluster,
+  walletAddress,
+}: {
+  result: Awaited<ReturnType<typeof createToken>>;
+  params: Pick<TokenLaunchParams, 'name' | 'symbol' | 'supply' | 'decimals' | 'tokenProgram'>;
+  cluster: ClusterSettings;
+  walletAddress: string;
+}): LaunchReceipt => ({
+  version: 1,
+  mintAddress: result.tokenAddress,
+  metadataAddress: result.metadataAddress,
+  cluster,
+  walletAddress,
+  name: params.name,
+  symbol: params.symbol,
+  supply: params.supply,
+  decimals: params.decimals,
+  tokenProgram: params.tokenProgram ?? 'token',
+  feePaid: result.feePayment
+    ? formatTokenAmount(result.feePayment.amount, result.feePayment.decimals, result.feePayment.symbol)
+    : `${result.feeAmount} SOL`,
+  feeTransaction: result.feeTransaction,
+  feeVerified: result.feeVerified,
+  signatures: result.signatures,
+  authorityStates: result.authorityStates,
+  createdAt: Date.now(),
+});
+
+/** The fee paid, flagged if the fee API found it short or couldn't find it. */
+export const formatFeePaid = (receipt: LaunchReceipt) =>
+  receipt.feeVerified === false ? `${receipt.feePaid} (unverified)` : receipt.feePaid;
+
+/** Launch transactions in order, with the one that paid the service fee marked. */
+export const getReceiptTransactions = ({ signatures, feeTransaction }: LaunchReceipt) =>
+  signatures.map((signature, index) => ({
+    signature,
+    label: `Launch Transaction ${index + 1}${signature === feeTransaction ? ' (service fee)' : ''}`,
+  }));
+
+/** A link to a launch's receipt page, which reads the token from the chain. */
+export const getReceiptLink = (mintAddress: string, cluster: ClusterSettings) => {
+  const url = `${window.location.origin}/launch/${mintAddress}`;
+  return PUBLIC_CLUSTERS.includes(cluster.id) ? `${url}#${RECEIPT_CLUSTER_KEY}=${cluster.id}` : url;
+};
+
+/** The public network a share link's fragment names, e.g. from `location.hash`. */
+export const parseReceiptCluster = (hash: string): ClusterSettings | null => {
+  const id = new URLSearchParams(hash.replace(/^#/, '')).get(RECEIPT_CLUSTER_KEY) as ClusterId | null;
+  return id && PUBLIC_CLUSTERS.includes(id) ? { id, customUrl: '' } : null;
+};
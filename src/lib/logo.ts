@@ -0,0 +1,134 @@
+import { MAX_UPLOAD_BYTES } from '@/lib/storage';
+
+export type LogoSize = 500 | 1000;
+export type LogoFormat = 'image/png' | 'image/webp';
+
+export const LOGO_SIZES: LogoSize[] = [500, 1000];
+
+export const LOGO_FORMAT_LABELS: Record<LogoFormat, string> = {
+  'image/png': 'PNG',
+  'image/webp': 'WebP',
+};
+
+// Raster formats the browser can decode. SVG is refused: it can carry scripts
+// and external references, and wallets render it inconsistently.
+export const LOGO_SOURCE_TYPES = ['image/png', 'image/jpeg', 'image/webp', 'image/gif'];
+
+export const MAX_LOGO_SOURCE_BYTES = 20 * 1024 * 1024;
+
+// WebP qualities tried in turn until the logo fits the upload limit.
+const WEBP_QUALITIES = [0.92, 0.8, 0.65];
+
+/**
+ * Which part of the source image becomes the square logo. `zoom` is 1 for the
+ * largest square that fits; `x` and `y` pan from -1 to 1 across what's left.
+ */
+export interface LogoCrop {
+  zoom: number;
+  x: number;
+  y: number;
+}
+
+export const DEFAULT_LOGO_CROP: LogoCrop = { zoom: 1, x: 0, y: 0 };
+
+export const MAX_LOGO_ZOOM = 4;
+
+/** Returns why a file can't be used as a logo, or null if it can. */
+export const validateLogoSource = (file: File) => {
+  if (file.type === 'image/svg+xml' || /\.svg$/i.test(file.name)) {
+    return 'SVG logos are not supported. Export it as PNG first.';
+  }
+  if (!LOGO_SOURCE_TYPES.includes(file.type)) {
+    return 'Use a PNG, JPEG, WebP or GIF image';
+  }
+  if (file.size > MAX_LOGO_SOURCE_BYTES) {
+    return `Images must be at most ${MAX_LOGO_SOURCE_BYTES / 1024 / 1024} MB`;
+  }
+  return null;
+};
+
+/** Decodes the image upright, applying any EXIF orientation. */
+export const loadLogoImage = async (file: File) => {
+  try {
+    return await createImageBitmap(file, { imageOrientation: 'from-image' });
+  } catch {
+    throw new Error('This image could not be read');
+  }
+};
+
+const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), max);
+
+/** The square of the source image, in source pixels, that `crop` selects. */
+export const getCropRect = (width: number, height: number, { zoom, x, y }: LogoCrop) => {
+  const side = Math.min(width, height) / clamp(zoom, 1, MAX_LOGO_ZOOM);
+  return {
+    left: ((width - side) / 2) * (1 + clamp(x, -1, 1)),
+    top: ((height - side) / 2) * (1 + clamp(y, -1, 1)),
+    side,
+  };
+};
+
+/**
+ * Moves the crop by a drag of `dx`, `dy` pixels on a preview `previewSize`
+ * pixels wide, so the image follows the pointer.
+ */
+export const panLogoCrop = (
+  crop: LogoCrop,
+  image: { width: number; height: number },
+  dx: number,
+  dy: number,
+  previewSize: number
+): LogoCrop => {
+  const { side } = getCropRect(image.width, image.height, crop);
+  const scale = side / previewSize;
+  const pan = (offset: number, delta: number, extent: number) =>
+    extent > side ? clamp(offset - (delta * scale) / ((extent - side) / 2), -1, 1) : 0;
+  return { ...crop, x: pan(crop.x, dx, image.width), y: pan(crop.y, dy, image.height) };
+};
+
+/** Draws the cropped logo onto a `size` pixel square canvas. */
+export const drawLogo = (canvas: HTMLCanvasElement, image: ImageBitmap, crop: LogoCrop, size: number) => {
+  const { left, top, side } = getCropRect(image.width, image.height, crop);
+  canvas.width = size;
+  canvas.height = size;
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error('Canvas is not available');
+  }
+  context.imageSmoothingQuality = 'high';
+  context.clearRect(0, 0, size, size);
+  context.drawImage(image, left, top, side, side, 0, 0, size, size);
+};
+
+const toBlob = (canvas: HTMLCanvasElement, format: LogoFormat, quality?: number) =>
+  new Promise<Blob>((resolve, reject) =>
+    canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error('The logo could not be encoded'))), format, quality)
+  );
+
+/**
+ * Renders the final logo. Re-encoding through a canvas drops EXIF and any
+ * other metadata in the source. Throws when it doesn't fit the upload limit.
+ */
+export const renderLogo = async (
+  image: ImageBitmap,
+  crop: LogoCrop,
+  { size, format }: { size: LogoSize; format: LogoFormat }
+) => {
+  const canvas = document.createElement('canvas');
+  drawLogo(canvas, image, crop, size);
+
+  const qualities = format === 'image/webp' ? WEBP_QUALITIES : [undefined];
+  for (const quality of qualities) {
+    const blob = await toBlob(canvas, format, quality);
+    // Browsers without a WebP encoder quietly fall back to PNG.
+    if (blob.type !== format) {
+      throw new Error(`This browser can't create ${LOGO_FORMAT_LABELS[format]} images`);
+    }
+    if (blob.size <= MAX_UPLOAD_BYTES) {
+      return new File([blob], `logo-${size}.${format === 'image/png' ? 'png' : 'webp'}`, { type: format });
+    }
+  }
+  throw new Error(
+    `The ${size}×${size} logo is larger than ${MAX_UPLOAD_BYTES / 1024 / 1024} MB. Try WebP or a smaller size.`
+  );
+};
@@ -0,0 +1,142 @@
+// Promo code rules, evaluated by the promo API route. This module has no
+// imports so the serverless function can load it without the app's aliases.
+
+export type PromoDiscount =
+  | { kind: 'percentage'; percent: number }
+  | { kind: 'fixed'; lamports: number };
+
+export interface PromoRule {
+  code: string;
+  discount?: PromoDiscount;
+  // Service fee features charged nothing, e.g. 'freezeAuthority'.
+  waive?: string[];
+  startsAt?: string;
+  expiresAt?: string;
+  maxUses?: number;
+}
+
+/** A priced line of the service fee; structurally a pricing QuoteLine. */
+export interface PromoFeeLine {
+  feature?: string;
+  label: string;
+  lamports: number;
+}
+
+/**
+ * A discount granted by the promo API, recorded with the launch it was applied
+ * to. It only holds for the wallet, cluster and priced features it was granted
+ * for, and only until it expires.
+ */
+export interface AppliedPromo {
+  code: string;
+  description: string;
+  discountLamports: number;
+  walletAddress: string;
+  cluster: string;
+  // The service fee features the discount was worked out for.
+  features: string[];
+  issuedAt: number;
+  expiresAt: number;
+  // HMAC over the fields above, checked by the fee API before it accepts a discounted fee.
+  signature: string;
+}
+
+export type PromoEvaluation =
+  | { valid: true; discountLamports: number; description: string }
+  | { valid: false; error: string };
+
+export const PROMO_MEMO_PREFIX = 'promo:';
+
+// How long an applied promo can be launched with.
+export const PROMO_VALIDITY_MS = 60 * 60 * 1000;
+
+export const normalizePromoCode = (code: string) => code.trim().toUpperCase();
+
+export const getPromoMemo = (code: string) => `${PROMO_MEMO_PREFIX}${normalizePromoCode(code)}`;
+
+const formatSol = (lamports: number) => `${Number((lamports / 1_000_000_000).toFixed(6))} SOL`;
+
+/**
+ * Works out the discount a rule grants on a service fee. Waived features are
+ * removed first, then the percentage or fixed discount applies to the rest;
+ * the fee never goes below zero.
+ */
+export const evaluatePromoRule = (
+  rule: PromoRule,
+  serviceFees: PromoFeeLine[],
+  { now = Date.now(), uses = 0 }: { now?: number; uses?: number } = {}
+): PromoEvaluation => {
+  if (rule.startsAt && now < Date.parse(rule.startsAt)) {
+    return { valid: false, error: 'This promo code is not active yet' };
+  }
+  if (rule.expiresAt && now >= Date.parse(rule.expiresAt)) {
+    return { valid: false, error: 'This promo code has expired' };
+  }
+  if (rule.maxUses !== undefined && uses >= rule.maxUses) {
+    return { valid: false, error: 'This promo code has been fully redeemed' };
+  }
+
+  const total = serviceFees.reduce((sum, { lamports }) => sum + lamports, 0);
+  const waived = serviceFees.filter(({ feature }) => feature && rule.waive?.includes(feature));
+  const waivedLamports = waived.reduce((sum, { lamports }) => sum + lamports, 0);
+  const remaining = total - waivedLamports;
+
+  let discountLamports = waivedLamports;
+  const parts = waived.map(({ label }) => `${label} free`);
+  if (rule.discount?.kind === 'percentage') {
+    discountLamports += Math.floor((remaining * Math.min(Math.max(rule.discount.percent, 0), 100)) / 100);
+    parts.unshift(`${rule.discount.percent}% off`);
+  } else if (rule.discount?.kind === 'fixed') {
+    discountLamports += Math.min(Math.max(rule.discount.lamports, 0), remaining);
+    parts.unshift(`${formatSol(rule.discount.lamports)} off`);
+  }
+
+  if (discountLamports <= 0) {
+    return { valid: false, error: 'This promo code does not apply to the selected options' };
+  }
+
+  return { valid: true, discountLamports, description: parts.join(', ') };
+};
+
+export const getPromoSignaturePayload = ({
+  code,
+  description,
+  discountLamports,
+  walletAddress,
+  cluster,
+  features,
+  issuedAt,
+  expiresAt,
+}: Omit<AppliedPromo, 'signature'>) =>
+  JSON.stringify({ code, description, discountLamports, walletAddress, cluster, features, issuedAt, expiresAt });
+
+const sameFeatures = (a: string[], b: string[]) =>
+  a.length === b.length && [...a].sort().join() === [...b].sort().join();
+
+/**
+ * Returns why a promo doesn't cover a launch, or null if it does. The
+ * signature can only be checked server-side, where the secret is.
+ */
+export const getPromoMismatch = (
+  promo: AppliedPromo,
+  { walletAddress, cluster, features, now = Date.now() }: {
+    walletAddress: string;
+    cluster: string;
+    features: string[];
+    now?: number;
+  }
+) => {
+  if (promo.walletAddress !== walletAddress) {
+    return 'This promo code was applied for a different wallet';
+  }
+  if (promo.cluster !== cluster) {
+    return 'This promo code was applied on a different network';
+  }
+  if (now > promo.expiresAt) {
+    return 'This promo code was applied too long ago. Apply it again to use it.';
+  }
+  if (!Array.isArray(promo.features) || !sameFeatures(promo.features, features)) {
+    return 'Your launch options changed since this promo code was applied. Apply it again to use it.';
+  }
+  return null;
+};
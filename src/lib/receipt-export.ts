@@ -0,0 +1,81 @@
+import { AUTHORITY_LABELS } from '@/api/launch-verification';
+import { TOKEN_PROGRAM_LABELS } from '@/api/token-extensions';
+import { CLUSTER_LABELS, getExplorerUrl } from '@/lib/clusters';
+import { LaunchReceipt, formatFeePaid, getReceiptTransactions } from '@/lib/launch-receipts';
+
+const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  // Some browsers start the download after click() returns, so the URL has to outlive it.
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+const receiptFilename = (receipt: LaunchReceipt, extension: string) =>
+  `${receipt.symbol || 'token'}-launch-receipt-${receipt.mintAddress.slice(0, 8)}.${extension}`;
+
+/** The receipt as label/value rows, in the order they are printed. */
+export const getReceiptRows = (receipt: LaunchReceipt): [string, string][] => [
+  ['Token', `${receipt.name} (${receipt.symbol})`],
+  ['Network', CLUSTER_LABELS[receipt.cluster.id]],
+  ['Launched', new Date(receipt.createdAt).toUTCString()],
+  ['Mint Address', receipt.mintAddress],
+  ['Metadata Address', receipt.metadataAddress],
+  ['Token Program', TOKEN_PROGRAM_LABELS[receipt.tokenProgram]],
+  ['Supply', receipt.supply],
+  ['Decimals', String(receipt.decimals)],
+  ['Creator Wallet', receipt.walletAddress],
+  ['Service Fee', formatFeePaid(receipt)],
+  ...getReceiptTransactions(receipt).map(({ signature, label }): [string, string] => [label, signature]),
+  ...(receipt.authorityStates ?? []).map(({ authority, actual, verified }): [string, string] => [
+    AUTHORITY_LABELS[authority],
+    `${actual}${verified ? '' : ' (mismatch)'}`,
+  ]),
+];
+
+export const downloadReceiptJson = (receipt: LaunchReceipt) => {
+  downloadBlob(
+    new Blob([JSON.stringify(receipt, null, 2)], { type: 'application/json' }),
+    receiptFilename(receipt, 'json')
+  );
+};
+
+// jsPDF is only loaded when someone asks for a PDF.
+export const downloadReceiptPdf = async (receipt: LaunchReceipt, qrCodeDataUrl?: string) => {
+  const { jsPDF } = await import('jspdf');
+  const pdf = new jsPDF({ unit: 'pt', format: 'a4' });
+  const margin = 48;
+  const valueX = margin + 130;
+  const valueWidth = pdf.internal.pageSize.getWidth() - valueX - margin;
+  let y = margin;
+
+  pdf.setFontSize(18);
+  pdf.text('Token Launch Receipt', margin, y);
+  if (qrCodeDataUrl) {
+    pdf.addImage(qrCodeDataUrl, 'PNG', pdf.internal.pageSize.getWidth() - margin - 96, margin - 18, 96, 96);
+  }
+  y += 110;
+
+  pdf.setFontSize(10);
+  for (const [label, value] of getReceiptRows(receipt)) {
+    const lines: string[] = pdf.splitTextToSize(value, valueWidth);
+    if (y + lines.length * 14 > pdf.internal.pageSize.getHeight() - margin) {
+      pdf.addPage();
+      y = margin;
+    }
+    pdf.setFont('helvetica', 'bold');
+    pdf.text(label, margin, y);
+    pdf.setFont('helvetica', 'normal');
+    pdf.text(lines, valueX, y);
+    y += lines.length * 14 + 6;
+  }
+
+  pdf.setFontSize(8);
+  pdf.text(getExplorerUrl(`/address/${receipt.mintAddress}`, receipt.cluster), margin, y + 12, {
+    maxWidth: pdf.internal.pageSize.getWidth() - margin * 2,
+  });
+
+  pdf.save(receiptFilename(receipt, 'pdf'));
+};
@@ -0,0 +1,26 @@
+import { PublicKey } from '@solana/web3.js';
+
+// Kept for the browser session only, so a referral doesn't follow the user
+// around indefinitely.
+const REFERRER_STORAGE_KEY = 'token-launch-referrer';
+
+/** Returns the referrer as a base58 address, or null if it isn't a valid wallet. */
+export const parseReferrer = (value: string | null) => {
+  if (!value) {
+    return null;
+  }
+  try {
+    return new PublicKey(value).toBase58();
+  } catch {
+    return null;
+  }
+};
+
+export const saveReferrer = (referrer: string) => {
+  sessionStorage.setItem(REFERRER_STORAGE_KEY, referrer);
+};
+
+export const loadReferrer = () => parseReferrer(sessionStorage.getItem(REFERRER_STORAGE_KEY));
+
+export const getReferralLink = (walletAddress: string) =>
+  `${window.location.origin}/?ref=${walletAddress}`;
@@ -0,0 +1,123 @@
+// The service fee a launch is charged, from the pricing config. The promo and
+// fee APIs price launches with it too, so its only runtime import is the
+// config, by relative path: the serverless functions don't have the app's aliases.
+import type { ClusterId } from '@/lib/clusters';
+import type { TokenExtensionKey, TokenExtensionSettings, TokenProgramChoice } from '@/api/token-extensions';
+import type { AppliedPromo } from '@/lib/promo-codes';
+import { PRICING_CONFIG } from '../config/pricing';
+
+const LAMPORTS_PER_SOL = 1_000_000_000;
+
+// What a service fee line charges for. Promo rules waive features by these keys.
+export type ServiceFeeFeature =
+  | 'base'
+  | 'freezeAuthority'
+  | 'mintAuthority'
+  | 'updateAuthority'
+  | 'creatorMetadata'
+  | 'promo'
+  | TokenExtensionKey;
+
+export interface QuoteLine {
+  feature?: ServiceFeeFeature;
+  label: string;
+  lamports: number;
+}
+
+/** The launch options the service fee depends on. */
+export interface PricedLaunch {
+  authorities?: {
+    freezeAuthority: boolean;
+    mintAuthority: boolean;
+    updateAuthority: boolean;
+  };
+  creatorName?: string;
+  tokenProgram?: TokenProgramChoice;
+  extensions?: TokenExtensionSettings;
+}
+
+const SERVICE_FEE_LABELS: Record<Exclude<ServiceFeeFeature, 'promo'>, string> = {
+  base: 'Base Fee',
+  freezeAuthority: 'Freeze Authority',
+  mintAuthority: 'Mint Authority',
+  updateAuthority: 'Update Authority',
+  creatorMetadata: 'Creator Metadata',
+  transferFee: 'Transfer Fee Extension',
+  interestBearing: 'Interest-Bearing Extension',
+  nonTransferable: 'Non-Transferable Extension',
+  permanentDelegate: 'Permanent Delegate Extension',
+  defaultAccountState: 'Default Account State Extension',
+  mintCloseAuthority: 'Mint Close Authority Extension',
+};
+
+export const solToLamports = (sol: number) => Math.round(sol * LAMPORTS_PER_SOL);
+
+export const sumQuoteLines = (lines: QuoteLine[]) => lines.reduce((total, { lamports }) => total + lamports, 0);
+
+/** Whether `cluster` is one the pricing config has a schedule for. */
+export const isPricedCluster = (cluster: string): cluster is ClusterId =>
+  Object.prototype.hasOwnProperty.call(PRICING_CONFIG, cluster);
+
+export const getPricingSchedule = (cluster: ClusterId) => PRICING_CONFIG[cluster];
+
+export const getExtensionFeeLamports = (cluster: ClusterId, extension: TokenExtensionKey) =>
+  solToLamports(getPricingSchedule(cluster).extensions[extension]);
+
+/** The service fee charged for a launch, one line per priced option. */
+export const getServiceFeeLines = (cluster: ClusterId, launch: PricedLaunch): QuoteLine[] => {
+  const schedule = getPricingSchedule(cluster);
+  const line = (feature: Exclude<ServiceFeeFeature, 'promo'>, sol: number): QuoteLine =>
+    ({ feature, label: SERVICE_FEE_LABELS[feature], lamports: solToLamports(sol) });
+  const lines = [line('base', schedule.baseFee)];
+
+  if (launch.authorities?.freezeAuthority) {
+    lines.push(line('freezeAuthority', schedule.authorities.freezeAuthority));
+  }
+  if (launch.authorities?.mintAuthority) {
+    lines.push(line('mintAuthority', schedule.authorities.mintAuthority));
+  }
+  if (launch.authorities?.updateAuthority) {
+    lines.push(line('updateAuthority', schedule.authorities.updateAuthority));
+  }
+  if (launch.creatorName) {
+    lines.push(line('creatorMetadata', schedule.creatorMetadata));
+  }
+  // Extensions only exist on Token-2022 mints.
+  if (launch.tokenProgram === 'token-2022') {
+    for (const extension of Object.keys(schedule.extensions) as TokenExtensionKey[]) {
+      if (launch.extensions?.[extension]?.enabled) {
+        lines.push(line(extension, schedule.extensions[extension]));
+      }
+    }
+  }
+
+  return lines;
+};
+
+export const getServiceFeeLamports = (cluster: ClusterId, launch: PricedLaunch) =>
+  sumQuoteLines(getServiceFeeLines(cluster, launch));
+
+// The fee transfer carries a memo naming the mint it pays for, so the fee API
+// can check the launch it is verifying against that mint.
+export const getLaunchFeeMemo = (mint: string) => `launch:${mint}`;
+
+/** The priced features of a launch, which a promo is bound to. */
+export const getServiceFeeFeatures = (lines: QuoteLine[]) =>
+  lines.flatMap(({ feature }) => (feature && feature !== 'promo' ? [feature] : []));
+
+/** The part of a service fee paid to the referrer rather than the fee collector. */
+export const getReferralShareLamports = (cluster: ClusterId, serviceFeeLamports: number) =>
+  Math.floor((serviceFeeLamports * getPricingSchedule(cluster).referralSharePercent) / 100);
+
+/** Adds a promo's discount to the service fee as a negative line. */
+export const applyPromoDiscount = (serviceFees: QuoteLine[], promo?: AppliedPromo | null): QuoteLine[] =>
+  promo
+    ? [
+        ...serviceFees,
+        {
+          feature: 'promo',
+          label: `Promo ${promo.code} (${promo.description})`,
+          lamports: -Math.min(promo.discountLamports, sumQuoteLines(serviceFees)),
+        },
+      ]
+    : serviceFees;
@@ -0,0 +1,71 @@
+// Shared by the upload API and the browser, so both enforce the same limits.
+
+export type StorageProviderId = 'local' | 's3' | 'ipfs' | 'arweave';
+
+export const STORAGE_PROVIDER_LABELS: Record<StorageProviderId, string> = {
+  local: 'Local storage',
+  s3: 'S3',
+  ipfs: 'IPFS',
+  arweave: 'Arweave',
+};
+
+// Uploads travel base64-encoded in a JSON body, which has to stay under the
+// 4.5 MB request limit of serverless functions.
+export const MAX_UPLOAD_BYTES = 2 * 1024 * 1024;
+
+export const UPLOAD_CONTENT_TYPES: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/gif': 'gif',
+  'image/webp': 'webp',
+  'video/mp4': 'mp4',
+  'application/json': 'json',
+};
+
+// How long one wallet signature authorizes uploads for.
+export const UPLOAD_AUTHORIZATION_TTL_MS = 10 * 60 * 1000;
+
+/** A wallet's signed permission to upload, sent with every upload until it expires. */
+export interface UploadAuthorization {
+  walletAddress: string;
+  expiresAt: number;
+  // Base64 ed25519 signature over getUploadAuthorizationMessage.
+  signature: string;
+}
+
+export const getUploadAuthorizationMessage = ({
+  walletAddress,
+  host,
+  expiresAt,
+}: {
+  walletAddress: string;
+  host: string;
+  expiresAt: number;
+}) =>
+  `Authorize token metadata uploads to ${host}\nWallet: ${walletAddress}\nExpires: ${new Date(expiresAt).toISOString()}`;
+
+export interface UploadRequest {
+  contentType: string;
+  // Base64 file contents.
+  data: string;
+  authorization: UploadAuthorization;
+}
+
+export interface UploadResponse {
+  uri: string;
+  provider: StorageProviderId;
+}
+
+/** Returns why an upload can't be stored, or null if it can. */
+export const validateUpload = (contentType: string, size: number) => {
+  if (!UPLOAD_CONTENT_TYPES[contentType]) {
+    return `Files of type ${contentType || 'unknown'} can't be uploaded`;
+  }
+  if (size === 0) {
+    return 'The file is empty';
+  }
+  if (size > MAX_UPLOAD_BYTES) {
+    return `Files must be at most ${MAX_UPLOAD_BYTES / 1024 / 1024} MB`;
+  }
+  return null;
+};
@@ -0,0 +1,48 @@
+export const U64_MAX = 2n ** 64n - 1n;
+export const MAX_DECIMALS = 9;
+
+const SUPPLY_PATTERN = /^(\d+)(?:\.(\d+))?$/;
+
+/**
+ * Converts a human supply such as "1,000,000,000" or "1000.5" into the raw
+ * base-unit amount passed to mintTo (supply × 10^decimals), without going
+ * through floating point. `label` names the amount in error messages.
+ */
+export const parseSupplyToBaseUnits = (supply: string, decimals: number, label = 'Supply'): bigint => {
+  if (!Number.isInteger(decimals) || decimals < 0 || decimals > MAX_DECIMALS) {
+    throw new Error(`Decimals must be a whole number between 0 and ${MAX_DECIMALS}`);
+  }
+
+  const normalized = supply.replace(/,/g, '').trim();
+  const match = SUPPLY_PATTERN.exec(normalized);
+  if (!match) {
+    throw new Error(`${label} must be a positive number, e.g. 1,000,000,000`);
+  }
+
+  const [, whole, fraction = ''] = match;
+  if (fraction.length > decimals) {
+    throw new Error(`${label} has more fractional digits than the ${decimals} decimals allow`);
+  }
+
+  const amount = BigInt(whole + fraction.padEnd(decimals, '0'));
+  if (amount === 0n) {
+    throw new Error(`${label} must be greater than zero`);
+  }
+  if (amount > U64_MAX) {
+    throw new Error(
+      `${label} is too large: ${formatBaseUnits(amount)} base units exceeds the u64 maximum of ${formatBaseUnits(U64_MAX)}`
+    );
+  }
+
+  return amount;
+};
+
+export const validateSupply = (supply: string, decimals: number) => {
+  try {
+    return { amount: parseSupplyToBaseUnits(supply, decimals), error: null };
+  } catch (error) {
+    return { amount: null, error: error instanceof Error ? error.message : 'Invalid supply' };
+  }
+};
+
+export const formatBaseUnits = (amount: bigint) => amount.toString().replace(/\B(?=(\d{3})+(?!\d))/g, ',');
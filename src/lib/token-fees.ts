@@ -0,0 +1,75 @@
+// Converting the service fee into SPL tokens. The fee API checks token fees
+// with the same maths, so besides web3.js the only runtime import is the
+// currency config, by relative path: the serverless functions don't have the app's aliases.
+import { LAMPORTS_PER_SOL } from '@solana/web3.js';
+import type { FeeCurrency } from '@/config/fee-currencies';
+import { STATIC_SOL_PRICES } from '../config/fee-currencies';
+
+const PRICE_SCALE = 1_000_000_000n;
+
+/** Converts SOL into other currencies. Prices are units of the token one SOL buys. */
+export interface PriceSource {
+  name: string;
+  getSolPrice: (symbol: string) => Promise<number>;
+}
+
+/** A service fee converted into an SPL token, recorded with the launch so a resume charges the same amount. */
+export interface TokenFeePayment extends FeeCurrency {
+  // In the token's base units.
+  amount: string;
+  solPrice: number;
+  priceSource: string;
+  // The service fee in lamports the amount was converted from, and when.
+  lamports: number;
+  quotedAt: number;
+}
+
+export const staticPriceSource: PriceSource = {
+  name: 'static',
+  getSolPrice: async (symbol) => {
+    const price = STATIC_SOL_PRICES[symbol];
+    if (!price) {
+      throw new Error(`No price is configured for ${symbol}`);
+    }
+    return price;
+  },
+};
+
+// Reads SOL prices from a JSON object keyed by symbol, e.g. { "USDC": 148.2 }.
+// Stands in for an oracle until one is wired up.
+export const createPriceFeedSource = (url: string): PriceSource => ({
+  name: url,
+  getSolPrice: async (symbol) => {
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw new Error(`Price feed request failed (${response.status})`);
+    }
+    const price = Number((await response.json())[symbol]);
+    if (!Number.isFinite(price) || price <= 0) {
+      throw new Error(`The price feed has no price for ${symbol}`);
+    }
+    return price;
+  },
+});
+
+/**
+ * Converts lamports into a token's base units at `solPrice`, rounding up so
+ * the collector never receives less than the SOL price.
+ */
+export const lamportsToTokenAmount = (lamports: number, solPrice: number, decimals: number) => {
+  const scaledPrice = BigInt(Math.round(solPrice * Number(PRICE_SCALE)));
+  const divisor = BigInt(LAMPORTS_PER_SOL) * PRICE_SCALE;
+  const numerator = BigInt(lamports) * scaledPrice * 10n ** BigInt(decimals);
+  return (numerator + divisor - 1n) / divisor;
+};
+
+/** Splits a token fee in the same ratio as the lamport fee it was quoted from. */
+export const splitTokenFee = (
+  payment: Pick<TokenFeePayment, 'amount'>,
+  serviceFeeLamports: number,
+  shareLamports: number
+) => {
+  const amount = BigInt(payment.amount);
+  const share = serviceFeeLamports > 0 ? (amount * BigInt(shareLamports)) / BigInt(serviceFeeLamports) : 0n;
+  return { remainder: amount - share, share };
+};
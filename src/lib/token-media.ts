@@ -0,0 +1,141 @@
+import { DEFAULT_LOGO_CROP, renderLogo } from '@/lib/logo';
+import { MAX_UPLOAD_BYTES } from '@/lib/storage';
+
+// Animated logos are stored as they are; only the fallback frame is re-encoded.
+export const ANIMATED_LOGO_TYPES = ['image/gif', 'image/webp', 'video/mp4'];
+export const BANNER_TYPES = ['image/png', 'image/jpeg', 'image/webp'];
+
+export const MIN_ANIMATED_LOGO_SIZE = 200;
+export const MAX_ANIMATED_LOGO_SIZE = 2000;
+
+// Headers are shown as wide strips; 1500×500 is the usual size.
+export const MIN_BANNER_WIDTH = 1000;
+export const MIN_BANNER_ASPECT = 2;
+export const MAX_BANNER_ASPECT = 4;
+const MAX_BANNER_WIDTH = 3000;
+
+const SIZE_LIMIT_MB = MAX_UPLOAD_BYTES / 1024 / 1024;
+
+export const isVideo = (file: File) => file.type.startsWith('video/');
+
+// Resolves once the video has decoded a frame at `time` seconds, or its metadata when `time` is null.
+const loadVideo = (file: File, time: number | null) =>
+  new Promise<HTMLVideoElement>((resolve, reject) => {
+    const video = document.createElement('video');
+    const url = URL.createObjectURL(file);
+    video.muted = true;
+    video.playsInline = true;
+    video.preload = 'auto';
+    video.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error('This video could not be read'));
+    };
+    video.onloadedmetadata = () => {
+      if (time === null) {
+        URL.revokeObjectURL(url);
+        resolve(video);
+        return;
+      }
+      video.onseeked = () => {
+        URL.revokeObjectURL(url);
+        resolve(video);
+      };
+      video.currentTime = Math.min(time, video.duration / 2);
+    };
+    video.src = url;
+  });
+
+const readDimensions = async (file: File) => {
+  if (isVideo(file)) {
+    const { videoWidth, videoHeight } = await loadVideo(file, null);
+    return { width: videoWidth, height: videoHeight };
+  }
+  try {
+    const image = await createImageBitmap(file);
+    const dimensions = { width: image.width, height: image.height };
+    image.close();
+    return dimensions;
+  } catch {
+    throw new Error('This image could not be read');
+  }
+};
+
+/** Returns why a file can't be used as the animated logo, or null if it can. */
+export const validateAnimatedLogo = async (file: File) => {
+  if (!ANIMATED_LOGO_TYPES.includes(file.type)) {
+    return 'Use a GIF, animated WebP or MP4';
+  }
+  if (file.size > MAX_UPLOAD_BYTES) {
+    return `Animated logos must be at most ${SIZE_LIMIT_MB} MB`;
+  }
+  const { width, height } = await readDimensions(file);
+  if (width !== height) {
+    return `Animated logos must be square (this one is ${width}×${height})`;
+  }
+  if (width < MIN_ANIMATED_LOGO_SIZE || width > MAX_ANIMATED_LOGO_SIZE) {
+    return `Animated logos must be between ${MIN_ANIMATED_LOGO_SIZE} and ${MAX_ANIMATED_LOGO_SIZE} pixels wide`;
+  }
+  return null;
+};
+
+/** A static PNG logo from the first frame of an animated logo, for wallets that can't play it. */
+export const extractFallbackFrame = async (file: File) => {
+  const frame = isVideo(file)
+    ? await createImageBitmap(await loadVideo(file, 0.1))
+    : await createImageBitmap(file);
+  try {
+    return await renderLogo(frame, DEFAULT_LOGO_CROP, { size: 500, format: 'image/png' });
+  } finally {
+    frame.close();
+  }
+};
+
+/**
+ * Checks the banner's size and shape, then re-encodes it in its own format so
+ * EXIF and other metadata in the source are dropped.
+ */
+export const prepareBanner = async (file: File) => {
+  if (!BANNER_TYPES.includes(file.type)) {
+    throw new Error('Use a PNG, JPEG or WebP banner');
+  }
+  let image: ImageBitmap;
+  try {
+    image = await createImageBitmap(file, { imageOrientation: 'from-image' });
+  } catch {
+    throw new Error('This image could not be read');
+  }
+
+  try {
+    const aspect = image.width / image.height;
+    if (image.width < MIN_BANNER_WIDTH) {
+      throw new Error(`Banners must be at least ${MIN_BANNER_WIDTH} pixels wide (this one is ${image.width})`);
+    }
+    if (aspect < MIN_BANNER_ASPECT || aspect > MAX_BANNER_ASPECT) {
+      throw new Error(
+        `Banners must be between ${MIN_BANNER_ASPECT}:1 and ${MAX_BANNER_ASPECT}:1 (this one is ${image.width}×${image.height})`
+      );
+    }
+
+    const scale = Math.min(1, MAX_BANNER_WIDTH / image.width);
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(image.width * scale);
+    canvas.height = Math.round(image.height * scale);
+    const context = canvas.getContext('2d');
+    if (!context) {
+      throw new Error('Canvas is not available');
+    }
+    context.imageSmoothingQuality = 'high';
+    context.drawImage(image, 0, 0, canvas.width, canvas.height);
+
+    const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, file.type, 0.9));
+    if (!blob) {
+      throw new Error('The banner could not be encoded');
+    }
+    if (blob.size > MAX_UPLOAD_BYTES) {
+      throw new Error(`Banners must be at most ${SIZE_LIMIT_MB} MB`);
+    }
+    return new File([blob], file.name, { type: blob.type });
+  } finally {
+    image.close();
+  }
+};
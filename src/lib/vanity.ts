@@ -0,0 +1,73 @@
+export const BASE58_ALPHABET = '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz';
+
+// Longer patterns take days or years in a browser; refuse them up front.
+export const MAX_VANITY_PATTERN_LENGTH = 6;
+
+export interface VanityPattern {
+  prefix: string;
+  suffix: string;
+  caseSensitive: boolean;
+}
+
+export type VanityWorkerRequest = VanityPattern & {
+  reportEvery: number;
+};
+
+export type VanityWorkerMessage =
+  | { type: 'progress'; attempts: number }
+  | { type: 'found'; secretKey: number[]; attempts: number };
+
+export const validateVanityPattern = ({ prefix, suffix }: VanityPattern) => {
+  const errors: string[] = [];
+  const invalid = [...new Set([...prefix, ...suffix].filter((char) => !BASE58_ALPHABET.includes(char)))];
+
+  if (invalid.length > 0) {
+    errors.push(`Not valid in a Solana address: ${invalid.join(' ')} (base58 excludes 0, O, I and l)`);
+  }
+  if (!prefix && !suffix) {
+    errors.push('Enter a prefix, a suffix or both');
+  }
+  if (prefix.length + suffix.length > MAX_VANITY_PATTERN_LENGTH) {
+    errors.push(`Prefix and suffix together can be at most ${MAX_VANITY_PATTERN_LENGTH} characters`);
+  }
+
+  return errors;
+};
+
+// Chance that one random base58 character matches `char`. Case-insensitive
+// matching accepts both cases where base58 has them.
+const matchProbability = (char: string, caseSensitive: boolean) => {
+  if (caseSensitive) {
+    return 1 / BASE58_ALPHABET.length;
+  }
+  const variants = new Set([char.toLowerCase(), char.toUpperCase()].filter((c) => BASE58_ALPHABET.includes(c)));
+  return Math.max(variants.size, 1) / BASE58_ALPHABET.length;
+};
+
+/** Expected number of keypairs to generate before one matches the pattern. */
+export const estimateVanityAttempts = ({ prefix, suffix, caseSensitive }: VanityPattern) =>
+  [...prefix, ...suffix].reduce((attempts, char) => attempts / matchProbability(char, caseSensitive), 1);
+
+export const matchesVanityPattern = (address: string, { prefix, suffix, caseSensitive }: VanityPattern) => {
+  if (caseSensitive) {
+    return address.startsWith(prefix) && address.endsWith(suffix);
+  }
+  const normalized = address.toLowerCase();
+  return normalized.startsWith(prefix.toLowerCase()) && normalized.endsWith(suffix.toLowerCase());
+};
+
+export const formatDuration = (seconds: number) => {
+  if (!Number.isFinite(seconds)) {
+    return 'unknown';
+  }
+  if (seconds < 60) {
+    return `${Math.ceil(seconds)}s`;
+  }
+  if (seconds < 3600) {
+    return `${Math.ceil(seconds / 60)}m`;
+  }
+  if (seconds < 86400) {
+    return `${(seconds / 3600).toFixed(1)}h`;
+  }
+  return `${(seconds / 86400).toFixed(1)}d`;
+};
@@ -1,15 +1,24 @@
 import { WalletMultiButton } from "@solana/wallet-adapter-react-ui";
 import { useWallet } from "@solana/wallet-adapter-react";
-import { useState } from "react";
+import { useEffect, useState } from "react";
+import { Link, useSearchParams } from "react-router-dom";
+import { Keypair } from "@solana/web3.js";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import TokenCreationStep1 from "@/components/TokenCreationStep1";
 import TokenCreationStep2 from "@/components/TokenCreationStep2";
 import TokenCreationStep3 from "@/components/TokenCreationStep3";
 import StepIndicator from "@/components/StepIndicator";
+import ResumeLaunchPrompt from "@/components/ResumeLaunchPrompt";
+import ClusterSelector from "@/components/ClusterSelector";
+import { DEFAULT_EXTENSION_SETTINGS, TokenProgramChoice } from "@/api/token-extensions";
+import { MetadataMode } from "@/api/mint-metadata";
+import { parseReferrer, saveReferrer } from "@/lib/referral";
+import { LaunchCheckpoint } from "@/lib/launch-checkpoint";
 import "@solana/wallet-adapter-react-ui/styles.css";
 const Index = () => {
   const [currentStep, setCurrentStep] = useState(1);
+  const [searchParams] = useSearchParams();
   const {
     connected
   } = useWallet();
@@ -20,6 +29,10 @@ const Index = () => {
     supply: "",
     decimals: 9,
     logo: null as File | null,
+    // Whether the logo is the first frame of the animated logo rather than one the user picked.
+    logoFromAnimation: false,
+    animatedLogo: null as File | null,
+    banner: null as File | null,
     website: "",
     twitter: "",
     telegram: "",
@@ -30,8 +43,20 @@ const Index = () => {
       freezeAuthority: false,
       mintAuthority: false,
       updateAuthority: false
-    }
+    },
+    tokenProgram: "token" as TokenProgramChoice,
+    extensions: DEFAULT_EXTENSION_SETTINGS,
+    metadataMode: "metaplex" as MetadataMode,
+    vanityMint: null as Keypair | null
   });
+
+  // A ?ref= link credits the referrer for launches made in this session.
+  useEffect(() => {
+    const referrer = parseReferrer(searchParams.get("ref"));
+    if (referrer) {
+      saveReferrer(referrer);
+    }
+  }, [searchParams]);
   const handleNextStep = () => {
     if (currentStep < 3) {
       setCurrentStep(currentStep + 1);
@@ -43,10 +68,18 @@ const Index = () => {
     }
   };
   const updateTokenData = (data: Partial<typeof tokenData>) => {
-    setTokenData({
-      ...tokenData,
+    setTokenData(current => ({
+      ...current,
       ...data
-    });
+    }));
+  };
+  // A discarded launch may have created its mint account, so its vanity key can't be launched again.
+  const handleDiscardLaunch = (checkpoint: LaunchCheckpoint) => {
+    if (tokenData.vanityMint?.publicKey.toBase58() === checkpoint.mintAddress) {
+      updateTokenData({
+        vanityMint: null
+      });
+    }
   };
   return <div className="min-h-screen bg-[#0B1221] text-white p-8">
       <div className="max-w-4xl mx-auto">
@@ -60,7 +93,14 @@ const Index = () => {
         </div>
 
         <Card className="bg-[#131B2E] border-[#1C2539] p-8 rounded-xl shadow-xl">
-          <div className="mb-6 flex justify-end">
+          <div className="mb-6 flex flex-wrap items-center justify-between gap-4">
+            <ClusterSelector />
+            <Link to="/tokens" className="ml-auto text-sm text-[#8B96A5] hover:text-white transition-colors">
+              My Tokens
+            </Link>
+            <Link to="/referrals" className="text-sm text-[#8B96A5] hover:text-white transition-colors">
+              Referrals
+            </Link>
             <WalletMultiButton className="!bg-[#00B679] hover:!bg-[#00A069] transition-colors" />
           </div>
 
@@ -68,6 +108,7 @@ const Index = () => {
               <h2 className="text-3xl font-semibold mb-4">Connect Your Wallet</h2>
               <p className="text-[#8B96A5] text-lg">Connect your Solana wallet to start creating your token</p>
             </div> : <div className="space-y-8">
+              <ResumeLaunchPrompt onDiscard={handleDiscardLaunch} />
               {currentStep === 1 && <TokenCreationStep1 tokenData={tokenData} updateTokenData={updateTokenData} />}
               {currentStep === 2 && <TokenCreationStep2 tokenData={tokenData} updateTokenData={updateTokenData} />}
               {currentStep === 3 && <TokenCreationStep3 tokenData={tokenData} updateTokenData={updateTokenData} />}
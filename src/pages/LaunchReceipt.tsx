@@ -0,0 +1,190 @@
+import { useEffect, useMemo, useState } from "react";
+import { Link, useLocation, useParams } from "react-router-dom";
+import { PublicKey } from "@solana/web3.js";
+import QRCode from "qrcode";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { toast } from "@/components/ui/use-toast";
+import MetaplexMetadataDetails from "@/components/MetaplexMetadataDetails";
+import { formatTokenAmount } from "@/api/fee-payment";
+import { AUTHORITY_LABELS } from "@/api/launch-verification";
+import { TOKEN_PROGRAM_LABELS } from "@/api/token-extensions";
+import { getMetadataPDA } from "@/api/token-metadata";
+import { useCluster } from "@/hooks/use-cluster";
+import { useReceiptToken } from "@/hooks/use-receipt-token";
+import { CLUSTER_LABELS, getExplorerUrl } from "@/lib/clusters";
+import {
+  formatFeePaid,
+  getReceiptLink,
+  getReceiptTransactions,
+  loadLaunchReceipt,
+  parseReceiptCluster,
+} from "@/lib/launch-receipts";
+import { downloadReceiptJson, downloadReceiptPdf } from "@/lib/receipt-export";
+
+const copyToClipboard = async (value: string, label: string) => {
+  await navigator.clipboard.writeText(value);
+  toast({
+    title: "Copied",
+    description: `${label} copied to clipboard`,
+  });
+};
+
+const AddressRow = ({ label, value, href }: { label: string; value: string; href: string }) => <div className="space-y-1">
+    <p className="text-sm text-muted-foreground">{label}</p>
+    <div className="flex gap-2">
+      <a href={href} target="_blank" rel="noreferrer" className="flex-1 truncate rounded-md bg-[#0B1221] px-3 py-2 text-sm underline">
+        {value}
+      </a>
+      <Button variant="secondary" onClick={() => copyToClipboard(value, label)}>Copy</Button>
+    </div>
+  </div>;
+
+const LaunchReceipt = () => {
+  const { mint = "" } = useParams();
+  const { hash } = useLocation();
+  const { settings } = useCluster();
+  // Only saved on the device that launched the token. A share link names just
+  // the mint and its network, so everything else on the page comes from the chain.
+  const receipt = useMemo(() => loadLaunchReceipt(mint), [mint]);
+  const cluster = useMemo(() => receipt?.cluster ?? parseReceiptCluster(hash) ?? settings, [receipt, hash, settings]);
+  const { data: token, isLoading, error } = useReceiptToken(mint, cluster);
+  const [qrCode, setQrCode] = useState<string>();
+  const [isExportingPdf, setIsExportingPdf] = useState(false);
+
+  const metadataAddress = token?.metadataSource === "token-2022"
+    ? token.mintAddress
+    : token?.metadataSource === "metaplex" ? getMetadataPDA(new PublicKey(token.mintAddress)).toBase58() : null;
+
+  useEffect(() => {
+    QRCode.toDataURL(mint, { margin: 1, width: 192 })
+      .then(setQrCode)
+      .catch((error) => console.error("Failed to render QR code:", error));
+  }, [mint]);
+
+  const handleShare = async () => {
+    const url = getReceiptLink(mint, cluster);
+    if (navigator.share) {
+      try {
+        await navigator.share({ title: `${token?.name || mint} launch receipt`, url });
+        return;
+      } catch (error) {
+        // Cancelling the share sheet isn't an error worth reporting.
+        if (error instanceof DOMException && error.name === "AbortError") {
+          return;
+        }
+        console.error("Share failed, copying the link instead:", error);
+      }
+    }
+    await copyToClipboard(url, "Receipt link");
+  };
+
+  const handleDownloadPdf = async () => {
+    if (!receipt) {
+      return;
+    }
+    setIsExportingPdf(true);
+    try {
+      await downloadReceiptPdf(receipt, qrCode);
+    } catch (error) {
+      console.error("Failed to create PDF receipt:", error);
+      toast({
+        title: "Error",
+        description: "Failed to create the PDF receipt",
+        variant: "destructive"
+      });
+    } finally {
+      setIsExportingPdf(false);
+    }
+  };
+
+  return <div className="min-h-screen bg-[#0B1221] text-white p-8">
+      <div className="max-w-4xl mx-auto">
+        <div className="text-center mb-12 space-y-4 animate-fade-in">
+          <h1 className="text-5xl font-bold mb-4">Launch Receipt</h1>
+          {token && <p className="text-[#8B96A5] text-xl">
+              {token.name || "Unnamed token"}{token.symbol && ` (${token.symbol})`} on {CLUSTER_LABELS[cluster.id]}
+            </p>}
+        </div>
+
+        <Card className="bg-[#131B2E] border-[#1C2539] p-8 rounded-xl shadow-xl">
+          <div className="mb-6 flex flex-wrap items-center justify-end gap-4">
+            <Link to="/tokens" className="text-sm text-[#8B96A5] hover:text-white transition-colors">
+              My Tokens
+            </Link>
+            <Link to="/" className="text-sm text-[#8B96A5] hover:text-white transition-colors">
+              Launch a token
+            </Link>
+          </div>
+
+          {isLoading ? <p className="text-sm text-muted-foreground">Reading the token from {CLUSTER_LABELS[cluster.id]}...</p> : !token ? <div className="text-center py-12 space-y-4">
+              <h2 className="text-3xl font-semibold">No Token Found</h2>
+              <p className="text-[#8B96A5] text-lg">
+                {error ? `Couldn't read ${mint} from ${CLUSTER_LABELS[cluster.id]}.` : `${mint} is not a token mint on ${CLUSTER_LABELS[cluster.id]}.`}
+              </p>
+              <a href={getExplorerUrl(`/address/${mint}`, cluster)} target="_blank" rel="noreferrer" className="underline">
+                View {mint} on Solana Explorer
+              </a>
+            </div> : <div className="space-y-8">
+              <div className="bg-secondary/50 p-4 rounded-lg flex flex-wrap gap-6">
+                {qrCode && <img src={qrCode} alt={`QR code for mint ${token.mintAddress}`} className="h-40 w-40 rounded-md bg-white p-1" />}
+                <div className="flex-1 min-w-[16rem] space-y-4">
+                  <AddressRow label="Mint Address" value={token.mintAddress} href={getExplorerUrl(`/address/${token.mintAddress}`, cluster)} />
+                  {metadataAddress && <AddressRow label={token.metadataSource === "token-2022" ? "Metadata Address (on the mint)" : "Metadata Address"} value={metadataAddress} href={getExplorerUrl(`/address/${metadataAddress}`, cluster)} />}
+                </div>
+              </div>
+
+              <div className="bg-secondary/50 p-4 rounded-lg">
+                <h3 className="font-semibold mb-2">On-Chain Details</h3>
+                <div className="space-y-2">
+                  <p>Supply: {formatTokenAmount(token.supply, token.decimals, token.symbol)}</p>
+                  <p>Decimals: {token.decimals}</p>
+                  <p>Token Program: {TOKEN_PROGRAM_LABELS[token.tokenProgram]}</p>
+                  <p className="break-all">Mint Authority: {token.mintAuthority ?? "revoked"}</p>
+                  <p className="break-all">Freeze Authority: {token.freezeAuthority ?? "revoked"}</p>
+                  <p className="break-all">Update Authority: {token.updateAuthority ?? "immutable"}</p>
+                  {token.metaplexMetadata && <MetaplexMetadataDetails metadata={token.metaplexMetadata} />}
+                </div>
+              </div>
+
+              {!receipt ? <p className="text-sm text-muted-foreground">
+                  This token wasn't launched from this device, so its launch fee and transactions aren't shown. Everything above was read from {CLUSTER_LABELS[cluster.id]}.
+                </p> : <div className="bg-secondary/50 p-4 rounded-lg space-y-4">
+                  <div>
+                    <h3 className="font-semibold mb-2">Recorded at Launch</h3>
+                    <p className="text-sm text-muted-foreground">
+                      Saved on this device when the token was launched. Unlike the details above, these weren't read from the chain.
+                    </p>
+                  </div>
+                  <div className="space-y-2">
+                    <p>Service Fee: {formatFeePaid(receipt)}</p>
+                    <p>Launched: {new Date(receipt.createdAt).toLocaleString()}</p>
+                  </div>
+                  {receipt.authorityStates && <div>
+                      <h4 className="font-semibold mb-2">Authority Checks at Launch</h4>
+                      <ul className="space-y-2">
+                        {receipt.authorityStates.map(({ authority, actual, holder, verified }) => <li key={authority} className={verified ? "" : "text-red-400"}>
+                            {AUTHORITY_LABELS[authority]}: {actual}
+                            {holder && <span className="text-sm text-muted-foreground"> ({holder})</span>}
+                            {!verified && " (mismatch)"}
+                          </li>)}
+                      </ul>
+                    </div>}
+                  {getReceiptTransactions(receipt).map(({ signature, label }) => <AddressRow key={signature} label={label} value={signature} href={getExplorerUrl(`/tx/${signature}`, cluster)} />)}
+                </div>}
+
+              <div className="flex flex-wrap gap-2">
+                <Button onClick={handleShare} className="bg-[#00B679] hover:bg-[#00A069]">Share</Button>
+                {receipt && <>
+                    <Button variant="secondary" onClick={() => downloadReceiptJson(receipt)}>Download JSON</Button>
+                    <Button variant="secondary" onClick={handleDownloadPdf} disabled={isExportingPdf}>
+                      {isExportingPdf ? "Creating PDF..." : "Download PDF"}
+                    </Button>
+                  </>}
+              </div>
+            </div>}
+        </Card>
+      </div>
+    </div>;
+};
+export default LaunchReceipt;
@@ -0,0 +1,240 @@
+import { useRef, useState } from "react";
+import { Link, useParams } from "react-router-dom";
+import { WalletMultiButton } from "@solana/wallet-adapter-react-ui";
+import { useConnection, useWallet } from "@solana/wallet-adapter-react";
+import { TransactionInstruction } from "@solana/web3.js";
+import { useQueryClient } from "@tanstack/react-query";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { toast } from "@/components/ui/use-toast";
+import ClusterSelector from "@/components/ClusterSelector";
+import LaunchErrorPanel from "@/components/LaunchErrorPanel";
+import LaunchTimeline from "@/components/LaunchTimeline";
+import MetaplexMetadataDetails from "@/components/MetaplexMetadataDetails";
+import MetadataEditor from "@/components/MetadataEditor";
+import { useCluster } from "@/hooks/use-cluster";
+import { useManagedToken } from "@/hooks/use-managed-token";
+import { AUTHORITY_LABELS } from "@/api/launch-verification";
+import { formatTokenAmount } from "@/api/fee-payment";
+import { LaunchProgressEvent, LaunchStep, applyLaunchProgressEvent } from "@/api/launch-progress";
+import { TokenCreationError, toTokenCreationError } from "@/api/token-creation-errors";
+import {
+  MintAuthorityKind,
+  TOKEN_ACTION_LABELS,
+  TokenAction,
+  createBurnInstructions,
+  createFreezeInstructions,
+  createMintSupplyInstructions,
+  createSetMintAuthorityInstructions,
+  executeTokenAction,
+} from "@/api/token-management";
+import { getExplorerUrl } from "@/lib/clusters";
+import "@solana/wallet-adapter-react-ui/styles.css";
+
+const MINT_AUTHORITIES: MintAuthorityKind[] = ["mint", "freeze"];
+
+const ManageToken = () => {
+  const { mint } = useParams();
+  const { connection } = useConnection();
+  const { settings } = useCluster();
+  const { publicKey, signTransaction } = useWallet();
+  const queryClient = useQueryClient();
+  const { data, isLoading, error: loadError, refetch } = useManagedToken(mint, publicKey);
+  const [runningAction, setRunningAction] = useState<TokenAction | null>(null);
+  const [steps, setSteps] = useState<LaunchStep<TokenAction>[]>([]);
+  const [actionError, setActionError] = useState<TokenCreationError | null>(null);
+  const lastActionRef = useRef<() => void>();
+  const [mintAmount, setMintAmount] = useState("");
+  const [mintRecipient, setMintRecipient] = useState("");
+  const [burnAmount, setBurnAmount] = useState("");
+  const [holder, setHolder] = useState("");
+  const [newAuthorities, setNewAuthorities] = useState<Record<MintAuthorityKind, string>>({ mint: "", freeze: "" });
+
+  const runAction = async (action: TokenAction, buildInstructions: () => TransactionInstruction[] | Promise<TransactionInstruction[]>) => {
+    if (!publicKey || !signTransaction) {
+      toast({
+        title: "Error",
+        description: "Please connect your wallet first",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    lastActionRef.current = () => runAction(action, buildInstructions);
+    setRunningAction(action);
+    setActionError(null);
+    setSteps([]);
+    try {
+      const signature = await executeTokenAction({
+        connection,
+        walletAddress: publicKey.toBase58(),
+        signTransaction,
+        action,
+        buildInstructions,
+        onProgress: (event: LaunchProgressEvent<TokenAction>) => setSteps((current) => applyLaunchProgressEvent(current, event)),
+      });
+      toast({
+        title: "Success!",
+        description: `${TOKEN_ACTION_LABELS[action]} confirmed: ${signature}`,
+      });
+      await refetch();
+      queryClient.invalidateQueries({ queryKey: ["owned-tokens"] });
+      queryClient.invalidateQueries({ queryKey: ["editable-metadata"] });
+    } catch (error) {
+      console.error("Error:", error);
+      setActionError(toTokenCreationError(error));
+    } finally {
+      setRunningAction(null);
+    }
+  };
+
+  const handleRevoke = (authority: MintAuthorityKind) => {
+    if (!publicKey || !data) {
+      return;
+    }
+    if (window.confirm(`Revoke the ${AUTHORITY_LABELS[authority].toLowerCase()}? Nobody will ever be able to use it again.`)) {
+      runAction("revoke-authority", () => createSetMintAuthorityInstructions(data.token, publicKey, { authority, newAuthority: null }));
+    }
+  };
+
+  const token = data?.token;
+  const balance = data?.balance;
+  const isBusy = runningAction !== null;
+
+  return <div className="min-h-screen bg-[#0B1221] text-white p-8">
+      <div className="max-w-4xl mx-auto">
+        <div className="text-center mb-12 space-y-4 animate-fade-in">
+          <h1 className="text-5xl font-bold mb-4">Manage Token</h1>
+          {token && <p className="text-[#8B96A5] text-xl">{token.name || "Unnamed token"} ({token.symbol || "—"})</p>}
+        </div>
+
+        <Card className="bg-[#131B2E] border-[#1C2539] p-8 rounded-xl shadow-xl">
+          <div className="mb-6 flex flex-wrap items-center justify-between gap-4">
+            <ClusterSelector />
+            <Link to="/tokens" className="ml-auto text-sm text-[#8B96A5] hover:text-white transition-colors">
+              My Tokens
+            </Link>
+            <WalletMultiButton className="!bg-[#00B679] hover:!bg-[#00A069] transition-colors" />
+          </div>
+
+          {!publicKey ? <div className="text-center py-12">
+              <h2 className="text-3xl font-semibold mb-4">Connect Your Wallet</h2>
+              <p className="text-[#8B96A5] text-lg">Connect the wallet that holds this token's authorities</p>
+            </div> : isLoading ? <p className="text-sm text-muted-foreground">Loading token...</p> : loadError || !token || !balance ? <p className="text-sm text-red-400">
+              {loadError ? "Failed to load this token" : "This address is not a token mint on this network"}
+            </p> : <div className="space-y-8">
+              <div className="bg-secondary/50 p-4 rounded-lg flex flex-wrap items-center gap-4">
+                <Avatar className="h-14 w-14">
+                  {token.logo && <AvatarImage src={token.logo} alt={token.symbol} />}
+                  <AvatarFallback>{(token.symbol || "?").slice(0, 2)}</AvatarFallback>
+                </Avatar>
+                <div className="flex-1 min-w-[16rem] space-y-1 text-sm">
+                  <a href={getExplorerUrl(`/address/${token.mintAddress}`, settings)} target="_blank" rel="noreferrer" className="block break-all underline">
+                    {token.mintAddress}
+                  </a>
+                  <p>Supply: {formatTokenAmount(token.supply, token.decimals, token.symbol)}</p>
+                  <p>
+                    Your balance: {formatTokenAmount(balance.amount, token.decimals, token.symbol)}
+                    {balance.isFrozen && <span className="text-red-400"> (frozen)</span>}
+                  </p>
+                  <p className="text-muted-foreground">Mint Authority: {token.mintAuthority ?? "revoked"}</p>
+                  <p className="text-muted-foreground">Freeze Authority: {token.freezeAuthority ?? "revoked"}</p>
+                  <p className="text-muted-foreground">Update Authority: {token.updateAuthority ?? "immutable"}</p>
+                  {token.metaplexMetadata && <MetaplexMetadataDetails metadata={token.metaplexMetadata} className="text-muted-foreground" />}
+                </div>
+              </div>
+
+              {!token.authorities.mint && !token.authorities.freeze && !token.authorities.update && balance.amount === 0n && <p className="text-sm text-muted-foreground">
+                  This wallet holds no authority over this token and no tokens to burn.
+                </p>}
+
+              {token.authorities.mint && <div className="bg-secondary/50 p-4 rounded-lg space-y-4">
+                  <div>
+                    <h3 className="font-semibold mb-2">Mint Supply</h3>
+                    <p className="text-sm text-muted-foreground">Mint new tokens to your wallet or another recipient</p>
+                  </div>
+                  <div className="grid gap-4 md:grid-cols-2">
+                    <div className="grid gap-2">
+                      <Label htmlFor="mintAmount">Amount</Label>
+                      <Input id="mintAmount" placeholder="1000" value={mintAmount} onChange={(e) => setMintAmount(e.target.value)} />
+                    </div>
+                    <div className="grid gap-2">
+                      <Label htmlFor="mintRecipient">Recipient (optional)</Label>
+                      <Input id="mintRecipient" placeholder={publicKey.toBase58()} value={mintRecipient} onChange={(e) => setMintRecipient(e.target.value)} />
+                    </div>
+                  </div>
+                  <Button disabled={isBusy || !mintAmount.trim()} onClick={() => runAction("mint", () => createMintSupplyInstructions(token, publicKey, { amount: mintAmount, recipient: mintRecipient }))}>
+                    {runningAction === "mint" ? "Minting..." : "Mint"}
+                  </Button>
+                </div>}
+
+              {balance.amount > 0n && <div className="bg-secondary/50 p-4 rounded-lg space-y-4">
+                  <div>
+                    <h3 className="font-semibold mb-2">Burn Tokens</h3>
+                    <p className="text-sm text-muted-foreground">Permanently destroy tokens from your own account</p>
+                  </div>
+                  <div className="flex gap-2">
+                    <Input id="burnAmount" placeholder="Amount" value={burnAmount} onChange={(e) => setBurnAmount(e.target.value)} />
+                    <Button variant="secondary" onClick={() => setBurnAmount(formatTokenAmount(balance.amount, token.decimals, "").trim())}>
+                      Max
+                    </Button>
+                  </div>
+                  <Button variant="destructive" disabled={isBusy || !burnAmount.trim()} onClick={() => runAction("burn", () => createBurnInstructions(token, publicKey, burnAmount))}>
+                    {runningAction === "burn" ? "Burning..." : "Burn"}
+                  </Button>
+                </div>}
+
+              {token.authorities.freeze && <div className="bg-secondary/50 p-4 rounded-lg space-y-4">
+                  <div>
+                    <h3 className="font-semibold mb-2">Freeze or Thaw a Holder</h3>
+                    <p className="text-sm text-muted-foreground">Enter a holder's wallet or token account address</p>
+                  </div>
+                  <Input id="holder" placeholder="Holder address" value={holder} onChange={(e) => setHolder(e.target.value)} />
+                  <div className="flex gap-2">
+                    <Button disabled={isBusy || !holder.trim()} onClick={() => runAction("freeze", () => createFreezeInstructions(connection, token, publicKey, { holder, freeze: true }))}>
+                      {runningAction === "freeze" ? "Freezing..." : "Freeze"}
+                    </Button>
+                    <Button variant="secondary" disabled={isBusy || !holder.trim()} onClick={() => runAction("thaw", () => createFreezeInstructions(connection, token, publicKey, { holder, freeze: false }))}>
+                      {runningAction === "thaw" ? "Thawing..." : "Thaw"}
+                    </Button>
+                  </div>
+                </div>}
+
+              {MINT_AUTHORITIES.filter((authority) => token.authorities[authority]).map((authority) => <div key={authority} className="bg-secondary/50 p-4 rounded-lg space-y-4">
+                  <div>
+                    <h3 className="font-semibold mb-2">{AUTHORITY_LABELS[authority]}</h3>
+                    <p className="text-sm text-muted-foreground">Hand this authority to another wallet, or revoke it permanently</p>
+                  </div>
+                  <Input placeholder="New authority address" value={newAuthorities[authority]} onChange={(e) => setNewAuthorities({ ...newAuthorities, [authority]: e.target.value })} />
+                  <div className="flex gap-2">
+                    <Button disabled={isBusy || !newAuthorities[authority].trim()} onClick={() => runAction("transfer-authority", () => createSetMintAuthorityInstructions(token, publicKey, { authority, newAuthority: newAuthorities[authority] }))}>
+                      Transfer
+                    </Button>
+                    <Button variant="destructive" disabled={isBusy} onClick={() => handleRevoke(authority)}>
+                      Revoke
+                    </Button>
+                  </div>
+                </div>)}
+
+              {token.authorities.update && <div className="bg-secondary/50 p-4 rounded-lg space-y-4">
+                  <div>
+                    <h3 className="font-semibold mb-2">Metadata</h3>
+                    <p className="text-sm text-muted-foreground">Update the name, symbol, logo and links wallets and explorers show</p>
+                  </div>
+                  {token.metadataSource ? <MetadataEditor mintAddress={token.mintAddress} source={token.metadataSource} updateAuthority={publicKey} disabled={isBusy} isUpdating={runningAction === "update-metadata"} onSubmit={(buildInstructions) => runAction("update-metadata", buildInstructions)} /> : <p className="text-sm text-muted-foreground">
+                      This token has no metadata to edit.
+                    </p>}
+                </div>}
+
+              <LaunchTimeline steps={steps} labels={TOKEN_ACTION_LABELS} title="Transaction Progress" onRetry={() => lastActionRef.current?.()} retryDisabled={isBusy} />
+
+              {actionError && <LaunchErrorPanel error={actionError} walletAddress={publicKey.toBase58()} onRetry={() => lastActionRef.current?.()} onDismiss={() => setActionError(null)} />}
+            </div>}
+        </Card>
+      </div>
+    </div>;
+};
+export default ManageToken;
@@ -0,0 +1,111 @@
+import { WalletMultiButton } from "@solana/wallet-adapter-react-ui";
+import { useWallet } from "@solana/wallet-adapter-react";
+import { Link } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { toast } from "@/components/ui/use-toast";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import ClusterSelector from "@/components/ClusterSelector";
+import { useCluster } from "@/hooks/use-cluster";
+import { useReferredLaunches } from "@/hooks/use-referred-launches";
+import { getPricingSchedule } from "@/api/pricing";
+import { formatReferralEarning, sumReferralEarnings } from "@/api/referrals";
+import { getExplorerUrl } from "@/lib/clusters";
+import { getReferralLink } from "@/lib/referral";
+import "@solana/wallet-adapter-react-ui/styles.css";
+
+const shortenAddress = (address: string) => `${address.slice(0, 4)}...${address.slice(-4)}`;
+
+const Referrals = () => {
+  const { publicKey } = useWallet();
+  const { cluster, settings } = useCluster();
+  const { data: launches, isLoading, error } = useReferredLaunches(publicKey);
+  const referralLink = publicKey ? getReferralLink(publicKey.toBase58()) : "";
+  const totalsEarned = sumReferralEarnings(launches ?? []);
+
+  const handleCopyLink = async () => {
+    await navigator.clipboard.writeText(referralLink);
+    toast({
+      title: "Copied",
+      description: "Referral link copied to clipboard",
+    });
+  };
+
+  return <div className="min-h-screen bg-[#0B1221] text-white p-8">
+      <div className="max-w-4xl mx-auto">
+        <div className="text-center mb-12 space-y-4 animate-fade-in">
+          <h1 className="text-5xl font-bold mb-4">Referrals</h1>
+          <p className="text-[#8B96A5] text-xl">
+            Earn {getPricingSchedule(cluster).referralSharePercent}% of the service fee on every launch made through your link.
+          </p>
+        </div>
+
+        <Card className="bg-[#131B2E] border-[#1C2539] p-8 rounded-xl shadow-xl">
+          <div className="mb-6 flex flex-wrap items-center justify-between gap-4">
+            <ClusterSelector />
+            <Link to="/" className="ml-auto text-sm text-[#8B96A5] hover:text-white transition-colors">
+              Launch a token
+            </Link>
+            <WalletMultiButton className="!bg-[#00B679] hover:!bg-[#00A069] transition-colors" />
+          </div>
+
+          {!publicKey ? <div className="text-center py-12">
+              <h2 className="text-3xl font-semibold mb-4">Connect Your Wallet</h2>
+              <p className="text-[#8B96A5] text-lg">Connect the wallet you want referral fees paid to</p>
+            </div> : <div className="space-y-8">
+              <div className="bg-secondary/50 p-4 rounded-lg space-y-4">
+                <h3 className="font-semibold mb-2">Your Referral Link</h3>
+                <div className="flex gap-2">
+                  <code className="flex-1 truncate rounded-md bg-[#0B1221] px-3 py-2 text-sm">{referralLink}</code>
+                  <Button variant="secondary" onClick={handleCopyLink}>Copy</Button>
+                </div>
+              </div>
+
+              <div className="bg-secondary/50 p-4 rounded-lg space-y-4">
+                <div className="flex items-center justify-between">
+                  <h3 className="font-semibold">Referred Launches</h3>
+                  <p className="font-bold">Earned: {totalsEarned.map((total) => formatReferralEarning(cluster, total)).join(" + ")}</p>
+                </div>
+                {isLoading && <p className="text-sm text-muted-foreground">Loading referred launches...</p>}
+                {error && <p className="text-sm text-red-400">Failed to load referred launches</p>}
+                {launches && launches.length === 0 && <p className="text-sm text-muted-foreground">No referred launches yet</p>}
+                {launches && launches.length > 0 && <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Date</TableHead>
+                        <TableHead>Launcher</TableHead>
+                        <TableHead>Token</TableHead>
+                        <TableHead className="text-right">Earned</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {launches.map((launch) => <TableRow key={launch.signature}>
+                          <TableCell>
+                            <a href={getExplorerUrl(`/tx/${launch.signature}`, settings)} target="_blank" rel="noreferrer" className="underline">
+                              {launch.blockTime ? new Date(launch.blockTime * 1000).toLocaleDateString() : "Pending"}
+                            </a>
+                          </TableCell>
+                          <TableCell>{shortenAddress(launch.launcher)}</TableCell>
+                          <TableCell>
+                            {launch.mint ? <a href={getExplorerUrl(`/address/${launch.mint}`, settings)} target="_blank" rel="noreferrer" className="underline">
+                                {shortenAddress(launch.mint)}
+                              </a> : "—"}
+                          </TableCell>
+                          <TableCell className="text-right">{formatReferralEarning(cluster, launch.earned)}</TableCell>
+                        </TableRow>)}
+                    </TableBody>
+                  </Table>}
+              </div>
+            </div>}
+        </Card>
+      </div>
+    </div>;
+};
+export default Referrals;
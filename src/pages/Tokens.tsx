@@ -0,0 +1,134 @@
+import { WalletMultiButton } from "@solana/wallet-adapter-react-ui";
+import { useWallet } from "@solana/wallet-adapter-react";
+import { Link } from "react-router-dom";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { toast } from "@/components/ui/use-toast";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import ClusterSelector from "@/components/ClusterSelector";
+import { useCluster } from "@/hooks/use-cluster";
+import { useOwnedTokens } from "@/hooks/use-owned-tokens";
+import { AUTHORITY_LABELS, LaunchAuthority } from "@/api/launch-verification";
+import { formatTokenAmount } from "@/api/fee-payment";
+import { getExplorerUrl } from "@/lib/clusters";
+import { loadLaunchReceipt } from "@/lib/launch-receipts";
+import "@solana/wallet-adapter-react-ui/styles.css";
+
+const AUTHORITIES: LaunchAuthority[] = ["mint", "freeze", "update"];
+
+const shortenAddress = (address: string) => `${address.slice(0, 4)}...${address.slice(-4)}`;
+
+const Tokens = () => {
+  const { publicKey } = useWallet();
+  const { settings } = useCluster();
+  const { data: tokens, isLoading, error, refetch, isFetching } = useOwnedTokens(publicKey);
+
+  const handleCopyMint = async (mintAddress: string) => {
+    await navigator.clipboard.writeText(mintAddress);
+    toast({
+      title: "Copied",
+      description: "Mint address copied to clipboard",
+    });
+  };
+
+  return <div className="min-h-screen bg-[#0B1221] text-white p-8">
+      <div className="max-w-5xl mx-auto">
+        <div className="text-center mb-12 space-y-4 animate-fade-in">
+          <h1 className="text-5xl font-bold mb-4">My Tokens</h1>
+          <p className="text-[#8B96A5] text-xl">Tokens you launched or still hold an authority over.</p>
+        </div>
+
+        <Card className="bg-[#131B2E] border-[#1C2539] p-8 rounded-xl shadow-xl">
+          <div className="mb-6 flex flex-wrap items-center justify-between gap-4">
+            <ClusterSelector />
+            <Link to="/" className="ml-auto text-sm text-[#8B96A5] hover:text-white transition-colors">
+              Launch a token
+            </Link>
+            <WalletMultiButton className="!bg-[#00B679] hover:!bg-[#00A069] transition-colors" />
+          </div>
+
+          {!publicKey ? <div className="text-center py-12">
+              <h2 className="text-3xl font-semibold mb-4">Connect Your Wallet</h2>
+              <p className="text-[#8B96A5] text-lg">Connect the wallet you launched your tokens with</p>
+            </div> : <div className="bg-secondary/50 p-4 rounded-lg space-y-4">
+              <div className="flex items-center justify-between">
+                <h3 className="font-semibold">Tokens</h3>
+                <Button variant="secondary" size="sm" onClick={() => refetch()} disabled={isFetching}>
+                  {isFetching ? "Refreshing..." : "Refresh"}
+                </Button>
+              </div>
+              {isLoading && <p className="text-sm text-muted-foreground">Looking up your tokens...</p>}
+              {error && <p className="text-sm text-red-400">Failed to load your tokens</p>}
+              {tokens && tokens.length === 0 && <p className="text-sm text-muted-foreground">
+                  No tokens found for this wallet on this network
+                </p>}
+              {tokens && tokens.length > 0 && <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Token</TableHead>
+                      <TableHead>Supply</TableHead>
+                      <TableHead>Your Authorities</TableHead>
+                      <TableHead className="text-right">Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {tokens.map((token) => <TableRow key={token.mintAddress}>
+                        <TableCell>
+                          <div className="flex items-center gap-3">
+                            <Avatar className="h-9 w-9">
+                              {token.logo && <AvatarImage src={token.logo} alt={token.symbol} />}
+                              <AvatarFallback>{(token.symbol || "?").slice(0, 2)}</AvatarFallback>
+                            </Avatar>
+                            <div>
+                              <p className="font-medium">{token.name || "Unnamed token"}</p>
+                              <p className="text-sm text-muted-foreground">
+                                {token.symbol || "—"} · {shortenAddress(token.mintAddress)}
+                              </p>
+                            </div>
+                          </div>
+                        </TableCell>
+                        <TableCell>{formatTokenAmount(token.supply, token.decimals, token.symbol)}</TableCell>
+                        <TableCell>
+                          <div className="flex flex-wrap gap-1">
+                            {AUTHORITIES.filter((authority) => token.authorities[authority]).map((authority) => <Badge key={authority} variant="secondary">
+                                {AUTHORITY_LABELS[authority]}
+                              </Badge>)}
+                            {AUTHORITIES.every((authority) => !token.authorities[authority]) && <span className="text-sm text-muted-foreground">All revoked</span>}
+                          </div>
+                        </TableCell>
+                        <TableCell>
+                          <div className="flex flex-wrap justify-end gap-2">
+                            <Button asChild size="sm">
+                              <Link to={`/token/${token.mintAddress}/manage`}>Manage</Link>
+                            </Button>
+                            {loadLaunchReceipt(token.mintAddress) && <Button asChild variant="secondary" size="sm">
+                                <Link to={`/launch/${token.mintAddress}`}>Receipt</Link>
+                              </Button>}
+                            <Button asChild variant="secondary" size="sm">
+                              <a href={getExplorerUrl(`/address/${token.mintAddress}`, settings)} target="_blank" rel="noreferrer">
+                                Explorer
+                              </a>
+                            </Button>
+                            <Button variant="secondary" size="sm" onClick={() => handleCopyMint(token.mintAddress)}>
+                              Copy
+                            </Button>
+                          </div>
+                        </TableCell>
+                      </TableRow>)}
+                  </TableBody>
+                </Table>}
+            </div>}
+        </Card>
+      </div>
+    </div>;
+};
+export default Tokens;
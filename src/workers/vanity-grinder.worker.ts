@@ -0,0 +1,29 @@
+import { Keypair } from '@solana/web3.js';
+import { VanityWorkerMessage, VanityWorkerRequest, matchesVanityPattern } from '@/lib/vanity';
+
+// Grinds keypairs until one matches. The pool stops a worker by terminating
+// it, so the loop never has to check for cancellation.
+self.onmessage = (event: MessageEvent<VanityWorkerRequest>) => {
+  const { reportEvery, ...pattern } = event.data;
+  let attempts = 0;
+
+  for (;;) {
+    const keypair = Keypair.generate();
+    attempts++;
+
+    if (matchesVanityPattern(keypair.publicKey.toBase58(), pattern)) {
+      const message: VanityWorkerMessage = {
+        type: 'found',
+        secretKey: Array.from(keypair.secretKey),
+        attempts: attempts % reportEvery,
+      };
+      self.postMessage(message);
+      return;
+    }
+
+    if (attempts % reportEvery === 0) {
+      const message: VanityWorkerMessage = { type: 'progress', attempts: reportEvery };
+      self.postMessage(message);
+    }
+  }
+};